@@ -1,6 +1,7 @@
 import SlateCore from '../../packages/slate/package.json'
 import SlateReact from '../../packages/slate-react/package.json'
 import SlateHistory from '../../packages/slate-history/package.json'
+import SlateHtml from '../../packages/slate-html/package.json'
 
 import babel from 'rollup-plugin-babel'
 import commonjs from 'rollup-plugin-commonjs'
@@ -125,4 +126,5 @@ export default [
   factory(SlateReact),
   factory(SlateCore),
   factory(SlateHistory),
+  factory(SlateHtml),
 ]
@@ -0,0 +1,86 @@
+import { createEditor, Editor, Node, Transforms } from 'slate'
+import { HistoryEditor, withHistory, WithHistoryOptions } from '@src/index'
+
+// editor.operations 在微任务中清空，清空之后的输入才按照 delay 和单词边界判断是否合并
+const flush = () => Promise.resolve()
+
+const create = (options?: WithHistoryOptions) => {
+  const editor = withHistory(createEditor(), options);
+  editor.children = [{ type: 'paragraph', children: [{ text: '' }] }];
+  Transforms.select(editor, { path: [0, 0], offset: 0 });
+  return editor;
+}
+
+const type = async (editor: Editor, text: string) => {
+  for (const char of text) {
+    Editor.insertText(editor, char);
+    await flush();
+  }
+}
+
+describe('withHistory', () => {
+  let now = 0;
+
+  beforeEach(() => {
+    now = 0;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('breaks batches at word boundaries', async () => {
+    const editor = create();
+    await type(editor, 'one two');
+
+    expect(editor.history.undos.length).toBe(2);
+    HistoryEditor.undo(editor);
+    expect(Node.string(editor)).toBe('one ');
+  })
+
+  it('breaks batches after a pause', async () => {
+    const editor = create({ delay: 500 });
+    await type(editor, 'ab');
+    now += 600;
+    await type(editor, 'cd');
+
+    expect(editor.history.undos.length).toBe(2);
+    HistoryEditor.undo(editor);
+    expect(Node.string(editor)).toBe('ab');
+  })
+
+  it('keeps at most maxSize batches', async () => {
+    const editor = create({ maxSize: 2, merge: () => false });
+    await type(editor, 'abc');
+
+    expect(editor.history.undos.length).toBe(2);
+    HistoryEditor.undo(editor);
+    HistoryEditor.undo(editor);
+    HistoryEditor.undo(editor);
+    expect(Node.string(editor)).toBe('a');
+  })
+
+  it('uses the custom merge policy', async () => {
+    const editor = create({ merge: (op, prev, batch) => (batch ? batch.operations.length < 3 : undefined) });
+    await type(editor, 'a b c');
+
+    expect(editor.history.undos.map(batch => batch.operations.length)).toEqual([3, 2]);
+  })
+
+  it('removes evicted batches from the history tree', async () => {
+    const editor = create({ maxSize: 2, merge: () => false, tree: true });
+    await type(editor, 'abc');
+
+    const tree = HistoryEditor.tree(editor)!;
+    expect(tree.nodes.size).toBe(3);
+    expect(HistoryEditor.branches(editor).length).toBe(1);
+
+    // 根节点是 'a' 之后的文档，jump 到根节点只能回到这里
+    const root = Array.from(tree.nodes.values()).find(node => node.parent === null)!;
+    expect(() => HistoryEditor.jump(editor, 0)).toThrow();
+    HistoryEditor.jump(editor, root.id);
+    expect(Node.string(editor)).toBe('a');
+    expect(editor.history.undos.length).toBe(0);
+  })
+})
@@ -0,0 +1,65 @@
+import { createEditor, Editor, Node, Transforms } from 'slate'
+import { HistoryEditor, withHistory } from '@src/index'
+
+const flush = () => Promise.resolve()
+
+const create = () => {
+  const editor = withHistory(createEditor());
+  editor.children = [
+    { type: 'paragraph', children: [{ text: 'one' }] },
+    { type: 'paragraph', children: [{ text: 'two' }] },
+  ];
+  Transforms.select(editor, { path: [0, 0], offset: 3 });
+  return editor;
+}
+
+describe('HistoryEditor.withRemote', () => {
+  it('undoes local edits after a remote insert', async () => {
+    const editor = create();
+    Editor.insertText(editor, '!');
+    await flush();
+
+    HistoryEditor.withRemote(editor, () => {
+      editor.apply({ type: 'insert_text', path: [0, 0], offset: 0, text: '> ' });
+      editor.apply({ type: 'insert_node', path: [1], node: { type: 'paragraph', children: [{ text: 'new' }] } });
+    });
+    await flush();
+    expect(editor.history.undos.length).toBe(1);
+
+    HistoryEditor.undo(editor);
+    expect(editor.children.map(Node.string)).toEqual(['> one', 'new', 'two']);
+
+    HistoryEditor.redo(editor);
+    expect(editor.children.map(Node.string)).toEqual(['> one!', 'new', 'two']);
+  })
+
+  it('undoes local edits after a remote remove', async () => {
+    const editor = create();
+    Transforms.select(editor, { path: [1, 0], offset: 3 });
+    Editor.insertText(editor, '?');
+    await flush();
+
+    HistoryEditor.withRemote(editor, () => {
+      editor.apply({ type: 'remove_node', path: [0], node: editor.children[0] });
+    });
+    await flush();
+
+    HistoryEditor.undo(editor);
+    expect(editor.children.map(Node.string)).toEqual(['two']);
+  })
+
+  it('drops local edits removed by a remote op', async () => {
+    const editor = create();
+    Editor.insertText(editor, '!');
+    await flush();
+
+    HistoryEditor.withRemote(editor, () => {
+      editor.apply({ type: 'remove_node', path: [0], node: editor.children[0] });
+    });
+    await flush();
+
+    expect(editor.history.undos).toEqual([]);
+    HistoryEditor.undo(editor);
+    expect(editor.children.map(Node.string)).toEqual(['two']);
+  })
+})
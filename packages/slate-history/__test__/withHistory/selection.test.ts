@@ -0,0 +1,39 @@
+import { createEditor, Editor, Transforms } from 'slate'
+import { HistoryEditor, withHistory } from '@src/index'
+
+const flush = () => Promise.resolve()
+
+const create = () => {
+  const editor = withHistory(createEditor());
+  editor.children = [{ type: 'paragraph', children: [{ text: 'one' }] }];
+  Transforms.select(editor, { path: [0, 0], offset: 3 });
+  return editor;
+}
+
+describe('withHistory', () => {
+  it('restores selectionAfter on redo', async () => {
+    const editor = create();
+    Editor.insertText(editor, ' two');
+    Transforms.select(editor, { path: [0, 0], offset: 0 });
+    Editor.insertText(editor, '> ');
+    await flush();
+
+    HistoryEditor.undo(editor);
+    expect(editor.selection).toEqual({ anchor: { path: [0, 0], offset: 3 }, focus: { path: [0, 0], offset: 3 } });
+
+    HistoryEditor.redo(editor);
+    expect(editor.selection).toEqual({ anchor: { path: [0, 0], offset: 2 }, focus: { path: [0, 0], offset: 2 } });
+  })
+
+  it('tracks selection changes after a batch', async () => {
+    const editor = create();
+    Editor.insertText(editor, ' two');
+    await flush();
+    Transforms.select(editor, { anchor: { path: [0, 0], offset: 0 }, focus: { path: [0, 0], offset: 3 } });
+    await flush();
+
+    HistoryEditor.undo(editor);
+    HistoryEditor.redo(editor);
+    expect(editor.selection).toEqual({ anchor: { path: [0, 0], offset: 0 }, focus: { path: [0, 0], offset: 3 } });
+  })
+})
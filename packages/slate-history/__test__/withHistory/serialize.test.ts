@@ -0,0 +1,59 @@
+import { createEditor, Descendant, Editor, Node, Transforms } from 'slate'
+import { HistoryEditor, withHistory } from '@src/index'
+
+const flush = () => Promise.resolve()
+
+const create = (children: Descendant[]) => {
+  const editor = withHistory(createEditor());
+  editor.children = children;
+  Transforms.select(editor, Editor.end(editor, []));
+  return editor;
+}
+
+describe('HistoryEditor', () => {
+  it('restores serialized history', async () => {
+    const editor = create([{ type: 'paragraph', children: [{ text: 'one' }] }]);
+    Editor.insertText(editor, ' two');
+    await flush();
+
+    const restored = create(JSON.parse(JSON.stringify(editor.children)));
+    expect(HistoryEditor.restore(restored, HistoryEditor.serialize(editor))).toBe(true);
+    HistoryEditor.undo(restored);
+    expect(Node.string(restored)).toBe('one');
+  })
+
+  it('rejects history of another document', async () => {
+    const editor = create([{ type: 'paragraph', children: [{ text: 'one' }] }]);
+    Editor.insertText(editor, ' two');
+    await flush();
+
+    const other = create([{ type: 'paragraph', children: [{ text: 'one' }] }]);
+    expect(HistoryEditor.restore(other, HistoryEditor.serialize(editor))).toBe(false);
+    expect(other.history.undos).toEqual([]);
+  })
+
+  it('rejects operations without required fields', async () => {
+    const editor = create([{ type: 'paragraph', children: [{ text: 'one' }] }]);
+    Editor.insertText(editor, ' two');
+    await flush();
+
+    const data = JSON.parse(HistoryEditor.serialize(editor));
+    const restored = create(JSON.parse(JSON.stringify(editor.children)));
+    const invalid = [
+      { type: 'insert_text', path: [0, 0], text: 'x' },
+      { type: 'remove_node', path: [0] },
+      { type: 'move_node', path: [0], newPath: 'x' },
+      { type: 'set_node', path: [0], newProperties: {} },
+      { type: 'split_node', path: [], position: 1 },
+      { type: 'set_selection', properties: 1, newProperties: null },
+    ];
+
+    for (const op of invalid) {
+      data.undos[0].operations.push(op);
+      expect(HistoryEditor.restore(restored, JSON.stringify(data))).toBe(false);
+      data.undos[0].operations.pop();
+    }
+    expect(restored.history.undos).toEqual([]);
+    expect(HistoryEditor.restore(restored, JSON.stringify(data))).toBe(true);
+  })
+})
@@ -0,0 +1,81 @@
+import { createEditor, Editor, Node, Transforms } from 'slate'
+import { HistoryEditor, withHistory } from '@src/index'
+
+const flush = () => Promise.resolve()
+
+const create = () => {
+  const editor = withHistory(createEditor());
+  editor.children = [{ type: 'paragraph', children: [{ text: 'one' }] }];
+  Transforms.select(editor, { path: [0, 0], offset: 3 });
+  return editor;
+}
+
+const fail = () => {
+  throw new Error('fail');
+}
+
+describe('withHistory transaction', () => {
+  it('records the transaction as one batch', async () => {
+    const editor = create();
+    Editor.transaction(editor, () => {
+      Editor.insertText(editor, ' two');
+      Transforms.splitNodes(editor);
+      Editor.insertText(editor, 'three');
+    });
+    await flush();
+
+    expect(editor.history.undos.length).toBe(1);
+    HistoryEditor.undo(editor);
+    expect(Node.string(editor)).toBe('one');
+  })
+
+  it('keeps saved ops when a nested transaction rolls back unsaved ops', async () => {
+    const editor = create();
+    Editor.transaction(editor, () => {
+      Editor.insertText(editor, '!');
+      expect(() => Editor.transaction(editor, () => {
+        HistoryEditor.withoutSaving(editor, () => Editor.insertText(editor, '?'));
+        fail();
+      })).toThrow('fail');
+    });
+    await flush();
+
+    expect(Node.string(editor)).toBe('one!');
+    expect(editor.history.undos.map(batch => batch.operations.length)).toEqual([1]);
+    HistoryEditor.undo(editor);
+    expect(Node.string(editor)).toBe('one');
+  })
+
+  it('honors withoutMerging inside a transaction', async () => {
+    const editor = create();
+    Editor.transaction(editor, () => {
+      Editor.insertText(editor, '!');
+      HistoryEditor.withoutMering(editor, () => Editor.insertText(editor, '?'));
+      Editor.insertText(editor, '.');
+    });
+    await flush();
+
+    expect(editor.history.undos.map(batch => batch.operations.length)).toEqual([1, 2]);
+  })
+
+  it('removes every batch of a rolled back transaction', async () => {
+    const editor = create();
+    Editor.insertText(editor, '!');
+    await flush();
+    HistoryEditor.undo(editor);
+    const { redos } = editor.history;
+
+    expect(() => Editor.transaction(editor, () => {
+      Editor.insertText(editor, '?');
+      HistoryEditor.withoutMering(editor, () => Editor.insertText(editor, '.'));
+      fail();
+    })).toThrow('fail');
+    await flush();
+
+    expect(Node.string(editor)).toBe('one');
+    expect(editor.history.undos).toEqual([]);
+    expect(editor.history.redos).toBe(redos);
+    HistoryEditor.redo(editor);
+    expect(Node.string(editor)).toBe('one!');
+  })
+})
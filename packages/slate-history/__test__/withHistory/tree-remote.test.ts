@@ -0,0 +1,72 @@
+import { createEditor, Editor, Node, Transforms } from 'slate'
+import { HistoryEditor, withHistory } from '@src/index'
+
+const flush = () => Promise.resolve()
+
+const create = () => {
+  const editor = withHistory(createEditor(), { tree: true, merge: () => false });
+  editor.children = [
+    { type: 'paragraph', children: [{ text: 'one' }] },
+    { type: 'paragraph', children: [{ text: 'two' }] },
+  ];
+  Transforms.select(editor, { path: [0, 0], offset: 3 });
+  return editor;
+}
+
+const type = async (editor: Editor, text: string) => {
+  for (const char of text) {
+    Editor.insertText(editor, char);
+    await flush();
+  }
+}
+
+describe('HistoryEditor tree withRemote', () => {
+  it('jumps to another branch after a remote insert', async () => {
+    const editor = create();
+    await type(editor, 'ab');
+    const [b] = HistoryEditor.branches(editor);
+    HistoryEditor.undo(editor);
+    HistoryEditor.undo(editor);
+    await type(editor, 'c');
+    const c = HistoryEditor.tree(editor)!.current;
+
+    HistoryEditor.withRemote(editor, () => {
+      editor.apply({ type: 'insert_node', path: [0], node: { type: 'paragraph', children: [{ text: 'new' }] } });
+      editor.apply({ type: 'insert_text', path: [1, 0], offset: 0, text: '> ' });
+    });
+    await flush();
+
+    HistoryEditor.jump(editor, b.id);
+    expect(editor.children.map(Node.string)).toEqual(['new', '> oneab', 'two']);
+
+    HistoryEditor.jump(editor, c);
+    expect(editor.children.map(Node.string)).toEqual(['new', '> onec', 'two']);
+
+    HistoryEditor.jump(editor, 0);
+    expect(editor.children.map(Node.string)).toEqual(['new', '> one', 'two']);
+  })
+
+  it('removes branches emptied by a remote remove', async () => {
+    const editor = create();
+    await type(editor, 'ab');
+    HistoryEditor.undo(editor);
+    HistoryEditor.undo(editor);
+    Transforms.select(editor, { path: [1, 0], offset: 3 });
+    await type(editor, 'c');
+
+    HistoryEditor.withRemote(editor, () => {
+      editor.apply({ type: 'remove_node', path: [0], node: editor.children[0] });
+    });
+    await flush();
+
+    const tree = HistoryEditor.tree(editor)!;
+    expect(tree.nodes.size).toBe(2);
+    expect(HistoryEditor.branches(editor).map(node => node.id)).toEqual([tree.current]);
+    expect(editor.history.undos.length).toBe(1);
+
+    HistoryEditor.undo(editor);
+    expect(editor.children.map(Node.string)).toEqual(['two']);
+    HistoryEditor.redo(editor);
+    expect(editor.children.map(Node.string)).toEqual(['twoc']);
+  })
+})
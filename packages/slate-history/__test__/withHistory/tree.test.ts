@@ -0,0 +1,83 @@
+import { createEditor, Editor, Node, Transforms } from 'slate'
+import { HistoryEditor, withHistory } from '@src/index'
+
+const flush = () => Promise.resolve()
+
+const create = (tree = true) => {
+  const editor = withHistory(createEditor(), { tree, merge: () => false });
+  editor.children = [{ type: 'paragraph', children: [{ text: '' }] }];
+  Transforms.select(editor, { path: [0, 0], offset: 0 });
+  return editor;
+}
+
+const type = async (editor: Editor, text: string) => {
+  for (const char of text) {
+    Editor.insertText(editor, char);
+    await flush();
+  }
+}
+
+describe('HistoryEditor tree', () => {
+  it('keeps redos in a branch', async () => {
+    const editor = create();
+    await type(editor, 'ab');
+    HistoryEditor.undo(editor);
+    await type(editor, 'c');
+
+    expect(Node.string(editor)).toBe('ac');
+    expect(editor.history.redos).toEqual([]);
+    expect(HistoryEditor.branches(editor).length).toBe(2);
+  })
+
+  it('jumps between branches and back', async () => {
+    const editor = create();
+    await type(editor, 'ab');
+    const [b] = HistoryEditor.branches(editor);
+    HistoryEditor.undo(editor);
+    await type(editor, 'cd');
+    const d = HistoryEditor.tree(editor)!.current;
+
+    HistoryEditor.jump(editor, b.id);
+    expect(Node.string(editor)).toBe('ab');
+    expect(editor.history.undos.length).toBe(2);
+
+    HistoryEditor.jump(editor, d);
+    expect(Node.string(editor)).toBe('acd');
+    expect(editor.history.undos.length).toBe(3);
+
+    HistoryEditor.jump(editor, 0);
+    expect(Node.string(editor)).toBe('');
+    expect(editor.history.redos.length).toBe(3);
+
+    // jump 之后 redo 沿着最后所在的分支回来
+    HistoryEditor.redo(editor);
+    HistoryEditor.redo(editor);
+    HistoryEditor.redo(editor);
+    expect(Node.string(editor)).toBe('acd');
+  })
+
+  it('does not merge into a checkpoint', async () => {
+    const editor = withHistory(createEditor(), { tree: true });
+    editor.children = [{ type: 'paragraph', children: [{ text: '' }] }];
+    Transforms.select(editor, { path: [0, 0], offset: 0 });
+    await type(editor, 'ab');
+    HistoryEditor.checkpoint(editor, 'draft');
+    await type(editor, 'cd');
+
+    const [checkpoint] = HistoryEditor.checkpoints(editor);
+    expect(checkpoint.name).toBe('draft');
+    HistoryEditor.jump(editor, checkpoint.id);
+    expect(Node.string(editor)).toBe('ab');
+  })
+
+  it('keeps linear undo by default', async () => {
+    const editor = create(false);
+    await type(editor, 'ab');
+    HistoryEditor.undo(editor);
+    await type(editor, 'c');
+
+    expect(HistoryEditor.tree(editor)).toBeUndefined();
+    expect(HistoryEditor.branches(editor)).toEqual([]);
+    expect(editor.history.redos).toEqual([]);
+  })
+})
@@ -0,0 +1,19 @@
+/** @type {import('ts-jest').JestConfigWithTsJest} */
+
+const { pathsToModuleNameMapper } = require('ts-jest');
+const { compilerOptions } = require('./tsconfig.test');
+
+module.exports = {
+  preset: 'ts-jest',
+  testEnvironment: 'node',
+  /**
+   * slate 的 main 是打包之后的 dist，测试的时候直接使用 slate 的源码
+   * https://kulshekhar.github.io/ts-jest/docs/getting-started/paths-mapping/
+   */
+  roots: ['<rootDir>'],
+  modulePaths: [compilerOptions.baseUrl],
+  moduleNameMapper: pathsToModuleNameMapper(compilerOptions.paths, { prefix: '<rootDir>/' }),
+  transform: {
+    '^.+\\.tsx?$': ['ts-jest', { tsconfig: '<rootDir>/tsconfig.test.json' }],
+  },
+};
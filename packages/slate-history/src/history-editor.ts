@@ -1,17 +1,127 @@
-import { BaseEditor, Editor, Operation, Range } from "slate"
+import { BaseEditor, Descendant, Editor, Node, Operation, Path, Range } from "slate"
+import { createTree, linearHistory, pathTo } from "./history-tree"
 
-interface Batch {
+export interface Batch {
   operations: Operation[]
   selectionBefore: Range | null
+  // 这个历史记录之后的选区，之后单纯的选区变化也会更新，redo 的时候恢复
+  selectionAfter: Range | null
 }
 
-interface History {
+export interface History {
   undos: Batch[];
   redos: Batch[];
 }
 
+/**
+ * 历史记录树的节点，根节点没有 batch
+ *   - lastChild: 最近一次所在的子节点，redos 沿着它往下
+ *   - name: checkpoint 的名字
+ */
+export interface HistoryNode {
+  id: number;
+  parent: number | null;
+  children: number[];
+  batch: Batch | null;
+  lastChild?: number;
+  name?: string;
+}
+
+/**
+ * undo 之后再修改不会丢弃 redos，而是新开一个分支。current 是当前文档对应的节点
+ */
+export interface HistoryTree {
+  nodes: Map<number, HistoryNode>;
+  current: number;
+  nextId: number;
+}
+
+/**
+ * 序列化之后的历史记录。
+ * checksum 是序列化时 editor.children 的校验值，恢复的时候文档不一致说明历史记录已经过期
+ */
+export interface HistoryData {
+  version: number;
+  checksum: string;
+  undos: Batch[];
+  redos: Batch[];
+}
+
+const HISTORY_DATA_VERSION = 1;
+
+const isObject = (value: any) => !!value && typeof value === 'object' && !Array.isArray(value);
+const isOffset = (value: any) => Number.isInteger(value) && value >= 0;
+const isNodePath = (value: any) => Path.isPath(value) && value.length > 0 && value.every(isOffset);
+
+const isTextOperation = (op: any) => isNodePath(op.path) && isOffset(op.offset) && typeof op.text === 'string';
+const isInsertOrRemoveNode = (op: any) => isNodePath(op.path) && Node.isNode(op.node);
+const isSplitOrMergeNode = (op: any) => isNodePath(op.path) && isOffset(op.position);
+
+/**
+ * 每种 op 必须有的字段，缺少字段的 op 在 undo/redo 的时候才会报错，恢复的时候就要拒绝
+ */
+const OPERATION_VALIDATORS: Record<Operation['type'], (op: any) => boolean> = {
+  insert_text: isTextOperation,
+  remove_text: isTextOperation,
+  insert_node: isInsertOrRemoveNode,
+  remove_node: isInsertOrRemoveNode,
+  split_node: isSplitOrMergeNode,
+  merge_node: isSplitOrMergeNode,
+  move_node: op => isNodePath(op.path) && isNodePath(op.newPath),
+  set_node: op => isNodePath(op.path) && isObject(op.properties) && isObject(op.newProperties),
+  set_selection: op => (
+    (op.properties === null || isObject(op.properties)) &&
+    (op.newProperties === null || isObject(op.newProperties))
+  ),
+};
+
+const isOperation = (value: any): value is Operation => {
+  return isObject(value) && OPERATION_VALIDATORS.hasOwnProperty(value.type) && OPERATION_VALIDATORS[value.type as Operation['type']](value);
+}
+
+/**
+ * key 排序之后再序列化，属性的顺序不影响校验值
+ */
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const keys = Object.keys(value).sort();
+    return `{${keys.map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * FNV-1a，只用来判断文档是否一致
+ */
+const checksum = (children: Descendant[]) => {
+  const text = stableStringify(children);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `${text.length}:${(hash >>> 0).toString(16)}`;
+}
+
+const isSelection = (value: any) => value === null || Range.isRange(value);
+
+const isBatch = (value: any): value is Batch => {
+  return (
+    !!value &&
+    Array.isArray(value.operations) &&
+    value.operations.every(isOperation) &&
+    isSelection(value.selectionBefore) &&
+    isSelection(value.selectionAfter)
+  );
+}
+
 export const MERGING = new WeakMap<Editor, boolean | undefined>();
 export const SAVING = new WeakMap<Editor, boolean | undefined>();
+export const HISTORY_TREE = new WeakMap<Editor, HistoryTree>();
+export const REMOTE = new WeakMap<Editor, boolean | undefined>();
 
 export interface HistoryEditor extends BaseEditor {
   history: History
@@ -39,6 +149,134 @@ export const HistoryEditor = {
     SAVING.set(editor, prevIsSaving);
   },
 
+  isRemote(editor: Editor) {
+    return !!REMOTE.get(editor);
+  },
+
+  /**
+   * 协同编辑中其他人的 op 在 withRemote 中 apply，不会保存到历史记录中，
+   * 历史记录中的 op 会基于这些 op 做 transform，undo/redo 只会影响自己的修改
+   */
+  withRemote(editor: Editor, fn: () => void) {
+    const prevIsRemote = REMOTE.get(editor);
+    REMOTE.set(editor, true);
+    try {
+      fn();
+    } finally {
+      REMOTE.set(editor, prevIsRemote);
+    }
+  },
+
+  /**
+   * 把 undos/redos 序列化为 JSON 字符串
+   */
+  serialize(editor: HistoryEditor): string {
+    const { undos, redos } = editor.history;
+    const data: HistoryData = {
+      version: HISTORY_DATA_VERSION,
+      checksum: checksum(editor.children),
+      undos,
+      redos,
+    };
+    return JSON.stringify(data);
+  },
+
+  /**
+   * 恢复序列化的历史记录，数据不合法或者跟当前的 editor.children 不一致的时候不恢复，返回 false
+   */
+  restore(editor: HistoryEditor, data: string): boolean {
+    let parsed: HistoryData;
+    try {
+      parsed = JSON.parse(data);
+    } catch {
+      return false;
+    }
+
+    if (
+      !parsed ||
+      parsed.version !== HISTORY_DATA_VERSION ||
+      parsed.checksum !== checksum(editor.children) ||
+      !Array.isArray(parsed.undos) ||
+      !Array.isArray(parsed.redos) ||
+      !parsed.undos.every(isBatch) ||
+      !parsed.redos.every(isBatch)
+    ) {
+      return false;
+    }
+
+    editor.history = { undos: parsed.undos, redos: parsed.redos };
+    if (HISTORY_TREE.has(editor)) {
+      HISTORY_TREE.set(editor, createTree(editor.history));
+    }
+    return true;
+  },
+
+  /**
+   * 历史记录树，没有开启 tree 模式的时候返回 undefined
+   */
+  tree(editor: Editor): HistoryTree | undefined {
+    return HISTORY_TREE.get(editor);
+  },
+
+  /**
+   * 所有分支的末端节点
+   */
+  branches(editor: Editor): HistoryNode[] {
+    const tree = HISTORY_TREE.get(editor);
+    if (!tree) {
+      return [];
+    }
+    return Array.from(tree.nodes.values()).filter(node => node.children.length === 0);
+  },
+
+  /**
+   * 给当前节点命名，之后的修改不会再合并到这个节点中
+   */
+  checkpoint(editor: Editor, name: string) {
+    const tree = HISTORY_TREE.get(editor);
+    if (tree) {
+      tree.nodes.get(tree.current)!.name = name;
+    }
+  },
+
+  checkpoints(editor: Editor): HistoryNode[] {
+    const tree = HISTORY_TREE.get(editor);
+    if (!tree) {
+      return [];
+    }
+    return Array.from(tree.nodes.values()).filter(node => node.name !== undefined);
+  },
+
+  /**
+   * 跳到树中的任意节点：先 undo 到公共祖先，再沿着目标节点的路径 redo
+   */
+  jump(editor: HistoryEditor, id: number) {
+    const tree = HISTORY_TREE.get(editor);
+    if (!tree || !tree.nodes.has(id)) {
+      throw new Error(`Cannot find history node: ${id}`);
+    }
+
+    const from = pathTo(tree, tree.current);
+    const to = pathTo(tree, id);
+    let common = 0;
+    while (common < from.length && common < to.length && from[common] === to[common]) {
+      common++;
+    }
+
+    // 按照树重新生成当前节点的 undos/redos，保证跟树中的路径一致
+    editor.history = linearHistory(tree);
+    for (let i = from.length - 1; i >= common; i--) {
+      editor.undo();
+    }
+
+    editor.history.redos = to.slice(common).map(node => node.batch!).reverse();
+    for (let i = common; i < to.length; i++) {
+      editor.redo();
+    }
+
+    editor.history = linearHistory(tree);
+  },
+
   isMering(editor: Editor) {
     return MERGING.get(editor);
   },
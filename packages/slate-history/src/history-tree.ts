@@ -0,0 +1,156 @@
+import { Batch, History, HistoryNode, HistoryTree } from './history-editor';
+
+/**
+ * 根据线性的历史记录创建树：undos 是从根节点到当前节点的路径，redos 沿着 lastChild 往下
+ */
+export const createTree = (history: History): HistoryTree => {
+  const root: HistoryNode = { id: 0, parent: null, children: [], batch: null };
+  const tree: HistoryTree = { nodes: new Map([[0, root]]), current: 0, nextId: 1 };
+
+  for (const batch of history.undos) {
+    addNode(tree, batch);
+  }
+
+  let current = tree.current;
+  for (const batch of [...history.redos].reverse()) {
+    const node = createNode(tree, current, batch);
+    tree.nodes.get(current)!.lastChild = node.id;
+    current = node.id;
+  }
+
+  return tree;
+}
+
+const createNode = (tree: HistoryTree, parent: number, batch: Batch) => {
+  const node: HistoryNode = { id: tree.nextId++, parent, children: [], batch };
+  tree.nodes.set(node.id, node);
+  tree.nodes.get(parent)!.children.push(node.id);
+  return node;
+}
+
+/**
+ * 新的历史记录作为当前节点的子节点，之前的子节点保留下来成为另一个分支
+ */
+export const addNode = (tree: HistoryTree, batch: Batch) => {
+  const node = createNode(tree, tree.current, batch);
+  tree.nodes.get(tree.current)!.lastChild = node.id;
+  tree.current = node.id;
+}
+
+/**
+ * 事务回滚的时候去掉事务中创建的节点，redos 是恢复之后的 redos，用来找回之前的 lastChild
+ */
+export const removeCurrent = (tree: HistoryTree, redos: Batch[]) => {
+  const node = tree.nodes.get(tree.current)!;
+  if (node.parent === null) {
+    return;
+  }
+
+  const parent = tree.nodes.get(node.parent)!;
+  parent.children = parent.children.filter(id => id !== node.id);
+  parent.lastChild = parent.children.find(id => tree.nodes.get(id)!.batch === redos[redos.length - 1]);
+  tree.nodes.delete(node.id);
+  tree.current = parent.id;
+}
+
+/**
+ * undos 超过 maxSize 丢掉最早的历史记录的时候，当前路径上的第一个节点成为新的根节点。
+ * 原来的根节点和其他分支要先 undo 这个历史记录才能到达，一起删除
+ */
+export const removeFirst = (tree: HistoryTree) => {
+  const [root, first] = pathTo(tree, tree.current);
+  if (!first) {
+    return;
+  }
+
+  const remove = (id: number) => {
+    tree.nodes.get(id)!.children.forEach(remove);
+    tree.nodes.delete(id);
+  }
+  root.children.filter(id => id !== first.id).forEach(remove);
+  tree.nodes.delete(root.id);
+
+  first.parent = null;
+  first.batch = null;
+}
+
+/**
+ * 远端的 op 让 batch 变为空之后，去掉对应的节点，子节点接到父节点上。
+ * 当前节点被去掉的时候父节点成为当前节点，checkpoint 的名字也移到父节点上
+ */
+export const removeEmptyNodes = (tree: HistoryTree) => {
+  for (const node of Array.from(tree.nodes.values())) {
+    if (node.parent === null || node.batch!.operations.length) {
+      continue;
+    }
+
+    const parent = tree.nodes.get(node.parent)!;
+    const index = parent.children.indexOf(node.id);
+    parent.children.splice(index, 1, ...node.children);
+    for (const child of node.children) {
+      tree.nodes.get(child)!.parent = parent.id;
+    }
+    if (parent.lastChild === node.id) {
+      parent.lastChild = node.lastChild;
+    }
+    if (tree.current === node.id) {
+      tree.current = parent.id;
+    }
+    if (node.name !== undefined && parent.name === undefined) {
+      parent.name = node.name;
+    }
+    tree.nodes.delete(node.id);
+  }
+}
+
+/**
+ * undo 之后回到父节点，redo 的时候沿着 lastChild 回来
+ */
+export const moveUp = (tree: HistoryTree) => {
+  const node = tree.nodes.get(tree.current)!;
+  if (node.parent !== null) {
+    tree.nodes.get(node.parent)!.lastChild = node.id;
+    tree.current = node.parent;
+  }
+}
+
+/**
+ * redo 之后移动到 batch 对应的子节点
+ */
+export const moveDown = (tree: HistoryTree, batch: Batch) => {
+  const node = tree.nodes.get(tree.current)!;
+  const child = node.children.find(id => tree.nodes.get(id)!.batch === batch);
+  if (child !== undefined) {
+    node.lastChild = child;
+    tree.current = child;
+  }
+}
+
+/**
+ * 从根节点到 id 的路径，包括根节点
+ */
+export const pathTo = (tree: HistoryTree, id: number): HistoryNode[] => {
+  const path: HistoryNode[] = [];
+  let node = tree.nodes.get(id);
+  while (node) {
+    path.unshift(node);
+    node = node.parent === null ? undefined : tree.nodes.get(node.parent);
+  }
+  return path;
+}
+
+/**
+ * 当前节点对应的线性历史记录
+ */
+export const linearHistory = (tree: HistoryTree): History => {
+  const undos = pathTo(tree, tree.current).slice(1).map(node => node.batch!);
+  const redos: Batch[] = [];
+
+  let node = tree.nodes.get(tree.current)!;
+  while (node.lastChild !== undefined) {
+    node = tree.nodes.get(node.lastChild)!;
+    redos.unshift(node.batch!);
+  }
+
+  return { undos, redos };
+}
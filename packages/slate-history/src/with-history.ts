@@ -1,11 +1,56 @@
-import { Editor, Operation, Path, Transforms } from 'slate';
-import { HistoryEditor } from './history-editor';
+import { Editor, EditorTransaction, Operation, Path, Range, Transforms } from 'slate';
+import { Batch, HISTORY_TREE, HistoryEditor, HistoryTree } from './history-editor';
+import { addNode, createTree, linearHistory, moveDown, moveUp, pathTo, removeCurrent, removeEmptyNodes, removeFirst } from './history-tree';
 
-export const withHistory = <T extends Editor>(editor: T) => {
+/**
+ * 事务对应的历史记录
+ *   - batch: 事务中的 op 合并到的历史记录
+ *   - ops: 和 transaction.operations 一一对应，保存的 op 记录所在的 batch，没有保存的（withoutSaving、选区、远端）记录 null
+ *   - redos: 每个 batch 创建之前的 redos，batch 回滚之后恢复
+ */
+interface TransactionHistory {
+  batch: Batch | undefined;
+  ops: (Batch | null)[];
+  redos: Map<Batch, Batch[]>;
+}
+
+const TRANSACTION_TO_HISTORY = new WeakMap<EditorTransaction, TransactionHistory>();
+
+const getTransactionHistory = (transaction: EditorTransaction) => {
+  let history = TRANSACTION_TO_HISTORY.get(transaction);
+  if (!history) {
+    history = { batch: undefined, ops: [], redos: new Map() };
+    TRANSACTION_TO_HISTORY.set(transaction, history);
+  }
+  return history;
+}
+
+/**
+ * withHistory 的配置
+ *   - delay: 两次输入间隔超过 delay 毫秒之后新开一个历史记录，默认 1000
+ *   - maxSize: undos 最多保留的历史记录数量，默认 100
+ *   - merge: 自定义是否合并到上一个历史记录，返回 undefined 的时候使用默认的规则
+ *   - tree: 开启历史记录树，undo 之后的修改新开一个分支而不是丢弃 redos，默认关闭
+ */
+export interface WithHistoryOptions {
+  delay?: number;
+  maxSize?: number;
+  merge?: (op: Operation, prev: Operation | undefined, batch: Batch | undefined) => boolean | undefined;
+  tree?: boolean;
+}
+
+export const withHistory = <T extends Editor>(editor: T, options: WithHistoryOptions = {}) => {
   const e = editor as T & HistoryEditor;
+  const { delay = 1000, maxSize = 100, merge: customMerge, tree = false } = options;
 
   const { apply } = e;
   e.history = { undos: [], redos: [] };
+  if (tree) {
+    HISTORY_TREE.set(e, createTree(e.history));
+  }
+
+  // 上一次保存到历史记录的时间，用来判断输入是否停顿
+  let lastSaveTime = 0;
   
   e.redo = () => {
     const { history } = e;
@@ -26,9 +71,18 @@ export const withHistory = <T extends Editor>(editor: T) => {
         for (const op of batch.operations) {
           e.apply(op)
         }
+        // redo 之后恢复到这个历史记录之后的选区
+        if (batch.selectionAfter) {
+          Transforms.setSelection(e, batch.selectionAfter)
+        }
         // redo 结束之后，将 redobatch 放入 undo，随后取消 redo
         history.undos.push(batch);
         history.redos.pop();
+
+        const historyTree = HISTORY_TREE.get(e);
+        if (historyTree) {
+          moveDown(historyTree, batch);
+        }
       });
     });
   };
@@ -56,6 +110,11 @@ export const withHistory = <T extends Editor>(editor: T) => {
         // undo 结束之后，将 undoBatch 放入 redo，随后取消 undo
         history.redos.push(batch)
         history.undos.pop()
+
+        const historyTree = HISTORY_TREE.get(e);
+        if (historyTree) {
+          moveUp(historyTree);
+        }
       });
     });
   };
@@ -64,6 +123,9 @@ export const withHistory = <T extends Editor>(editor: T) => {
     const { history: { undos }, operations } = e;
     const lastBatch = undos[undos.length - 1];
     const lastOp = lastBatch && lastBatch.operations[lastBatch.operations.length - 1];
+    const transaction = Editor.getTransaction(e);
+    const transactionHistory = transaction && getTransactionHistory(transaction);
+    const historyTree = HISTORY_TREE.get(e);
 
     // 1. 判断是否需要保留在历史记录中
     let save = HistoryEditor.isSaving(e);
@@ -71,34 +133,129 @@ export const withHistory = <T extends Editor>(editor: T) => {
       save = shouldSave(op);
     }
 
+    /**
+     * 事务回滚的 op 不保存，而是从历史记录中去掉回滚的 op 中保存过的那些。
+     * 开始回滚之前 transaction.operations 已经去掉了回滚的 op，ops 中多出来的就是要去掉的，
+     * batch 全部去掉之后删除 batch 并恢复它创建之前的 redos
+     */
+    if (transaction?.rollingBack && transactionHistory) {
+      apply(op);
+      const { ops, redos } = transactionHistory;
+      while (ops.length > transaction.operations.length) {
+        const batch = ops.pop();
+        if (!batch) {
+          continue;
+        }
+        batch.operations.pop();
+        if (batch.operations.length === 0 && undos.includes(batch)) {
+          undos.splice(undos.indexOf(batch), 1);
+          e.history.redos = redos.get(batch)!;
+          if (historyTree) {
+            removeCurrent(historyTree, e.history.redos);
+          }
+          transactionHistory.batch = ops.reduce<Batch | undefined>((prev, item) => item || prev, undefined);
+        }
+      }
+      if (transactionHistory.batch) {
+        transactionHistory.batch.selectionAfter = e.selection;
+      }
+      return;
+    }
+
+    // 其他人的 op 不保存，历史记录基于它做 transform
+    if (HistoryEditor.isRemote(e)) {
+      apply(op);
+      transactionHistory?.ops.push(null);
+      if (op.type !== 'set_selection') {
+        rebaseHistory(e, op);
+      }
+      return;
+    }
+
     let merge = HistoryEditor.isMering(e);
     if (save) {
-      if (merge === undefined) {
-        // 2. 判断是否需要合并到同一个历史记录中
-        if (!lastBatch) {
+      if (transactionHistory) {
+        // 事务中的 op 都在同一个历史记录中，第一个 op 新开一个历史记录。withoutMerging 中的 op 也新开一个
+        merge = !!transactionHistory.batch && merge !== false;
+      } else if (merge === undefined) {
+        // 2. 判断是否需要合并到同一个历史记录中，优先使用自定义的规则
+        merge = customMerge?.(op, lastOp, lastBatch);
+
+        if (merge !== undefined) {
+          merge = merge && !!lastBatch;
+        } else if (!lastBatch) {
           merge = false;
         } else if (operations.length !== 0) {
           // e.operations 存在值就证明当前 op 跟其他 op 是在一个事件循环的, 需要合并
           merge = true;
         } else {
-          merge = shouldMerge(op, lastOp);
+          // 输入停顿超过 delay 之后不再合并
+          merge = Date.now() - lastSaveTime < delay && shouldMerge(op, lastOp);
+        }
+
+        /**
+         * 历史记录树中当前节点已经有子节点（undo 之后）或者是 checkpoint 的时候不能再合并，
+         * 否则子节点的 op 跟当前节点的内容对不上
+         */
+        const currentNode = historyTree && historyTree.nodes.get(historyTree.current)!;
+        if (merge && currentNode && (currentNode.children.length || currentNode.name !== undefined)) {
+          merge = false;
         }
       }
+    }
+
+    const selectionBefore = e.selection;
 
+    // 先 apply，op 抛出异常的时候不会保存到历史记录中
+    apply(op);
+
+    /**
+     * 不保存的选区变化（比如移动光标）更新上一个历史记录之后的选区，redo 的时候光标回到用户最后看到的位置。
+     * undo/redo 自身的选区变化是 withoutSaving，不更新
+     */
+    if (!save && op.type === 'set_selection' && HistoryEditor.isSaving(e) !== false) {
+      const batch = transactionHistory?.batch || lastBatch;
+      if (batch) {
+        batch.selectionAfter = e.selection;
+      }
+    }
+
+    if (!save) {
+      transactionHistory?.ops.push(null);
+    } else {
       // 3. 需要合并则合并到同一个历史记录中，不需要则重写开一个历史记录栈
-      if (lastBatch && merge) {
+      if (transactionHistory?.batch && merge) {
+        transactionHistory.batch.operations.push(op);
+        transactionHistory.batch.selectionAfter = e.selection;
+        transactionHistory.ops.push(transactionHistory.batch);
+      } else if (!transactionHistory && lastBatch && merge) {
         lastBatch.operations.push(op)
+        lastBatch.selectionAfter = e.selection;
       } else {
         const batch = {
           operations: [op],
-          selectionBefore: e.selection,
+          selectionBefore,
+          selectionAfter: e.selection,
+        }
+        if (transactionHistory) {
+          transactionHistory.batch = batch;
+          transactionHistory.ops.push(batch);
+          transactionHistory.redos.set(batch, e.history.redos);
         }
         undos.push(batch);
+        if (historyTree) {
+          addNode(historyTree, batch);
+        }
       }
 
-      // 4. undo栈只能保留100个
-      while (undos.length > 100) {
+      lastSaveTime = Date.now();
+
+      // 4. undo栈只能保留 maxSize 个，历史记录树中丢掉的节点也删除，jump 不能再回到那里
+      while (undos.length > maxSize) {
         undos.shift();
+        if (historyTree) {
+          removeFirst(historyTree);
+        }
       }
 
       /**
@@ -109,16 +266,109 @@ export const withHistory = <T extends Editor>(editor: T) => {
        *      delete4 记录的位置是在point=2，删除一个文本，
        *      insert3 记录的位置是在point=2，插入一个文本，
        *   两者有冲突
+       * 历史记录树中 redos 对应的节点保留在另一个分支上
        */
       e.history.redos = [];
     }
-
-    apply(op);
   };
 
   return e;
 }
 
+/**
+ * 远端在选区的位置插入内容的时候，选区留在前面，跟历史记录的 op 排在远端 op 前面（left）一致
+ */
+const transformSelection = (selection: Range | null, ops: Operation[]) => {
+  for (const op of ops) {
+    selection = selection && Range.transform(selection, op, { affinity: 'backward' });
+  }
+  return selection;
+}
+
+/**
+ * undo 方向 rebase 一个 batch：batch 的 inverse 和远端的 op 都是基于 batch 之后的文档，
+ * inverse 基于远端的 op 做 transform，返回基于 batch 之前的文档的远端 op
+ */
+const rebaseUndo = (batch: Batch, remote: Operation[]) => {
+  const inverseOps = batch.operations.map(Operation.inverse).reverse();
+  const rebased = Operation.transformAll(inverseOps, remote, 'left');
+
+  batch.selectionAfter = transformSelection(batch.selectionAfter, remote);
+  remote = Operation.transformAll(remote, inverseOps, 'right');
+  batch.selectionBefore = transformSelection(batch.selectionBefore, remote);
+  batch.operations = rebased.map(Operation.inverse).reverse();
+  return remote;
+}
+
+/**
+ * redo 方向 rebase 一个 batch：batch 和远端的 op 都是基于 batch 之前的文档，返回基于 batch 之后的文档的远端 op
+ */
+const rebaseRedo = (batch: Batch, remote: Operation[]) => {
+  const rebased = Operation.transformAll(batch.operations, remote, 'left');
+
+  batch.selectionBefore = transformSelection(batch.selectionBefore, remote);
+  remote = Operation.transformAll(remote, batch.operations, 'right');
+  batch.selectionAfter = transformSelection(batch.selectionAfter, remote);
+  batch.operations = rebased;
+  return remote;
+}
+
+/**
+ * 历史记录树中 id 下面的分支都是基于 id 对应的文档，remote 是基于这个文档的远端 op
+ */
+const rebaseBranches = (tree: HistoryTree, id: number, remote: Operation[], skip?: number) => {
+  if (!remote.length) {
+    return;
+  }
+  for (const child of tree.nodes.get(id)!.children) {
+    if (child !== skip) {
+      const node = tree.nodes.get(child)!;
+      rebaseBranches(tree, child, rebaseRedo(node.batch!, remote));
+    }
+  }
+}
+
+/**
+ * 远端的 op 是在当前文档上 apply 的，历史记录要基于它 rebase：
+ *   - undos 从栈顶往下，每个 batch 用 rebaseUndo 处理之后继续处理下一个 batch
+ *   - redos 从栈顶往下，每个 batch 都是基于当前的文档，用 rebaseRedo 同理
+ * 历史记录树中从当前节点往根节点走，每个节点不在当前路径上的分支用这个节点对应的远端 op 往下 rebase，
+ * 这样 jump 到其他分支的时候 op 跟文档也是对得上的
+ */
+const rebaseHistory = (e: HistoryEditor, remoteOp: Operation) => {
+  const tree = HISTORY_TREE.get(e);
+  if (tree) {
+    const path = pathTo(tree, tree.current);
+    let remote = [remoteOp];
+    rebaseBranches(tree, tree.current, remote);
+    for (let i = path.length - 1; i > 0 && remote.length; i--) {
+      remote = rebaseUndo(path[i].batch!, remote);
+      rebaseBranches(tree, path[i - 1].id, remote, path[i].id);
+    }
+
+    // 远端删除了自己修改的内容之后，batch 可能变为空
+    removeEmptyNodes(tree);
+    e.history = linearHistory(tree);
+    return;
+  }
+
+  const { undos, redos } = e.history;
+
+  let remote = [remoteOp];
+  for (let i = undos.length - 1; i >= 0 && remote.length; i--) {
+    remote = rebaseUndo(undos[i], remote);
+  }
+
+  remote = [remoteOp];
+  for (let i = redos.length - 1; i >= 0 && remote.length; i--) {
+    remote = rebaseRedo(redos[i], remote);
+  }
+
+  // 远端删除了自己修改的内容之后，batch 可能变为空
+  e.history.undos = undos.filter(batch => batch.operations.length);
+  e.history.redos = redos.filter(batch => batch.operations.length);
+}
+
 /**
  * 判断是否需要放到历史记录中
  */
@@ -137,22 +387,22 @@ const shouldSave = (op: Operation) => {
  */
 const shouldMerge = (op: Operation, prev: Operation | undefined) => {
   /**
-   * 处理连续插入 text 的场景，上一次插入 text 之后继续插入 text
-   * 这里有一个体验问题：在 undo 的时候会出问题。比如我连续插入3个1，undo 的时候预期是回退3次，目前只会回退一次。但是竞品其实也大多这个干
+   * 处理连续插入 text 的场景，上一次插入 text 之后继续插入 text。
+   * 在单词边界（空白之后开始输入新的单词）新开一个历史记录，这样 undo 的时候按单词回退，而不是整段回退
    */
   if (
     prev &&
     prev.type === 'insert_text' &&
     op.type === 'insert_text' && 
     op.offset === prev.offset + prev.text.length &&
-    Path.equals(op.path, prev.path)
+    Path.equals(op.path, prev.path) &&
+    !isWordBoundary(prev.text, op.text)
   ) {
     return true;
   }
 
   /**
    * 处理连续删除 text 的场景，上一次删除 text 之后继续删除 text
-   * 同上的体验问题
    */
   if (
     prev &&
@@ -165,4 +415,11 @@ const shouldMerge = (op: Operation, prev: Operation | undefined) => {
   }
 
   return false;
-}
\ No newline at end of file
+}
+
+/**
+ * 上一次输入以空白结尾，这一次输入以非空白开始
+ */
+const isWordBoundary = (prevText: string, text: string) => {
+  return /\s$/.test(prevText) && /^\S/.test(text);
+}
@@ -0,0 +1,33 @@
+import { Descendant } from 'slate'
+import { deserialize } from '@src/index'
+
+// Google Docs 复制的 html 整个包在 font-weight:normal 的 b 标签里面，加粗的文字用 font-weight:700 的 span 表示
+const html = [
+  '<meta charset="utf-8">',
+  '<b style="font-weight:normal;" id="docs-internal-guid-7a4e1c2f-7fff-1b2c-3d4e-5f6a7b8c9d0e">',
+  '<p dir="ltr"><span style="font-weight:400;">Plain text</span></p>',
+  '<p dir="ltr"><span style="font-weight:400;">More </span><b>bold</b></p>',
+  '</b>',
+].join('')
+
+const children: Descendant[] = [
+  { type: 'paragraph', children: [{ text: 'Plain text' }] },
+  { type: 'paragraph', children: [{ text: 'More ' }, { text: 'bold', bold: true }] },
+]
+
+// 只复制一行的时候没有 p 标签
+const inlineHtml = [
+  '<meta charset="utf-8">',
+  '<b style="font-weight:normal;" id="docs-internal-guid-7a4e1c2f-7fff-1b2c-3d4e-5f6a7b8c9d0e">',
+  '<span style="font-weight:400;">One </span><span style="font-weight:700;">line</span>',
+  '</b>',
+].join('')
+
+describe('deserialize', () => {
+  it('google-docs', () => {
+    expect(deserialize(html)).toEqual(children)
+    expect(deserialize(inlineHtml)).toEqual([
+      { type: 'paragraph', children: [{ text: 'One line' }] },
+    ])
+  })
+})
@@ -0,0 +1,44 @@
+import { Descendant } from 'slate'
+import { deserialize } from '@src/index'
+
+const html = [
+  '<p>',
+  '<a href="https://example.com">https</a>',
+  '<a href="mailto:a@example.com">mailto</a>',
+  '<a href="/docs?a=b:c">relative</a>',
+  '<a href="javascript:alert(1)">javascript</a>',
+  '<a href=" java&#9;script:alert(1)">whitespace</a>',
+  '<a href="#" data-slate-url="&quot;JavaScript:alert(1)&quot;">data</a>',
+  '</p>',
+  '<img src="data:image/svg+xml,<svg></svg>">',
+  '<img src="http://example.com/a.png">',
+].join('')
+
+const children: Descendant[] = [
+  {
+    type: 'paragraph',
+    children: [
+      { text: '' },
+      { type: 'link', url: 'https://example.com', children: [{ text: 'https' }] },
+      { text: '' },
+      { type: 'link', url: 'mailto:a@example.com', children: [{ text: 'mailto' }] },
+      { text: '' },
+      { type: 'link', url: '/docs?a=b:c', children: [{ text: 'relative' }] },
+      { text: '' },
+      { type: 'link', children: [{ text: 'javascript' }] },
+      { text: '' },
+      { type: 'link', children: [{ text: 'whitespace' }] },
+      { text: '' },
+      { type: 'link', children: [{ text: 'data' }] },
+      { text: '' },
+    ],
+  },
+  { type: 'image', children: [{ text: '' }] },
+  { type: 'image', url: 'http://example.com/a.png', children: [{ text: '' }] },
+] as Descendant[]
+
+describe('deserialize', () => {
+  it('unsafe-url', () => {
+    expect(deserialize(html)).toEqual(children)
+  })
+})
@@ -0,0 +1,32 @@
+import { Descendant } from 'slate'
+import { deserialize } from '@src/index'
+
+// 粘贴进来的 html 可以带着任意的 data-slate-*，只接受规则里面声明的类型、属性和 mark
+const html = [
+  '<div data-slate-type="x" data-slate-onclick="1"><span data-slate-marks=\'{"bold":true,"onclick":1}\'>one</span></div>',
+  '<p data-slate-type="check-list-item" data-slate-checked="true" data-slate-onclick="1">two</p>',
+  '<p data-slate-align="&quot;center&quot;" data-slate-children="[]">',
+  'three <span data-slate-type="mention" data-slate-character="&quot;R2-D2&quot;" data-slate-onclick="1"',
+  ' data-slate-children=\'[{"text":"","italic":true,"onclick":1},{"type":"x","children":[]}]\'></span>',
+  '</p>',
+].join('')
+
+const children: Descendant[] = [
+  { children: [{ text: 'one', bold: true }] },
+  { type: 'check-list-item', checked: true, children: [{ text: 'two' }] },
+  {
+    type: 'paragraph',
+    align: 'center',
+    children: [
+      { text: 'three ' },
+      { type: 'mention', character: 'R2-D2', children: [{ text: '', italic: true }] },
+      { text: '' },
+    ],
+  },
+] as Descendant[]
+
+describe('deserialize', () => {
+  it('untrusted-attributes', () => {
+    expect(deserialize(html)).toEqual(children)
+  })
+})
@@ -0,0 +1,42 @@
+import { Descendant } from 'slate'
+import { deserialize } from '@src/index'
+
+// 在 Chrome 里面从网页复制的 html：带着页面里面的 style、script、title 和 StartFragment 注释
+const html = `<html>
+<head><meta charset="utf-8"><title>Array.prototype.map() - JavaScript | MDN</title></head>
+<body>
+<!--StartFragment--><style>.notecard{border-left:4px solid #0085f2;padding:1rem}p{color:red}</style>
+<h2 id="syntax" style="font-size: 2.074rem; font-weight: 300;"><a href="#syntax">Syntax</a></h2>
+<script>window.dataLayer = window.dataLayer || []; alert(1)</script>
+<p style="margin: 0px 0px 2rem; color: rgb(27, 27, 27);">The <code style="font-family: var(--font-code);">map()</code> method <strong>creates a new array</strong> populated with the results.</p>
+<template><p>Hidden template content</p></template>
+<!--EndFragment-->
+</body>
+</html>`
+
+const children: Descendant[] = [
+  {
+    type: 'heading-two',
+    children: [
+      { text: '' },
+      { type: 'link', url: '#syntax', children: [{ text: 'Syntax' }] },
+      { text: '' },
+    ],
+  },
+  {
+    type: 'paragraph',
+    children: [
+      { text: 'The ' },
+      { text: 'map()', code: true },
+      { text: ' method ' },
+      { text: 'creates a new array', bold: true },
+      { text: ' populated with the results.' },
+    ],
+  },
+]
+
+describe('deserialize', () => {
+  it('web-page', () => {
+    expect(deserialize(html)).toEqual(children)
+  })
+})
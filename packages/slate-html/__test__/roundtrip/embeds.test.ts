@@ -0,0 +1,35 @@
+import { Descendant } from 'slate'
+import { deserialize, serialize } from '@src/index'
+
+// site/pages/embeds.tsx
+const children: Descendant[] = [
+  {
+    type: 'paragraph',
+    children: [
+      {
+        text:
+          'In addition to simple image nodes, you can actually create complex embedded nodes. For example, this one contains an input element that lets you change the video being rendered!',
+      },
+    ],
+  },
+  {
+    type: 'video',
+    url: 'https://interactive-examples.mdn.mozilla.net/media/cc0-videos/flower.webm',
+    children: [{ text: '111' }],
+  },
+  {
+    type: 'paragraph',
+    children: [
+      {
+        text:
+          'Try it out! This editor is built to handle Vimeo embeds, but you could handle any type.',
+      },
+    ],
+  },
+]
+
+describe('roundtrip', () => {
+  it('embeds', () => {
+    expect(deserialize(serialize(children))).toEqual(children)
+  })
+})
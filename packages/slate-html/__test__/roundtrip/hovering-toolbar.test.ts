@@ -0,0 +1,33 @@
+import { Descendant } from 'slate'
+import { deserialize, serialize } from '@src/index'
+
+// site/pages/hovering-toolbar.tsx
+const children: Descendant[] = [
+  {
+    type: 'paragraph',
+    children: [
+      {
+        text:
+          'This example shows how you can make a hovering menu appear above your content, which you can use to make text ',
+      },
+      { text: 'bold', bold: true },
+      { text: ', ' },
+      { text: 'italic', italic: true },
+      { text: ', or anything else you might want to do!' },
+    ],
+  },
+  {
+    type: 'paragraph',
+    children: [
+      { text: 'Try it out yourself! Just ' },
+      { text: 'select any piece of text and the menu will appear', bold: true },
+      { text: '.' },
+    ],
+  },
+]
+
+describe('roundtrip', () => {
+  it('hovering-toolbar', () => {
+    expect(deserialize(serialize(children))).toEqual(children)
+  })
+})
@@ -0,0 +1,49 @@
+import { Descendant } from 'slate'
+import { deserialize, serialize } from '@src/index'
+
+// site/pages/images.tsx
+const children: Descendant[] = [
+  {
+    type: 'paragraph',
+    children: [
+      {
+        text:
+          'In addition to nodes that contain editable text, you can also create other types of nodes, like images or videos.',
+      },
+    ],
+  },
+  {
+    type: 'image',
+    url: 'https://yari-demos.prod.mdn.mozit.cloud/en-US/docs/Web/HTML/Element/img/clock-demo-400px.png',
+    children: [{ text: '' }],
+  },
+  {
+    type: 'paragraph',
+    children: [
+      {
+        text:
+          'This example shows images in action. It features two ways to add images. You can either add an image via the toolbar icon above, or if you want in on a little secret, copy an image URL to your clipboard and paste it anywhere in the editor!',
+      },
+    ],
+  },
+  {
+    type: 'paragraph',
+    children: [
+      {
+        text:
+          'You can delete images with the cross in the top left. Try deleting this sheep:',
+      },
+    ],
+  },
+  {
+    type: 'image',
+    url: 'https://yari-demos.prod.mdn.mozit.cloud/en-US/docs/Web/HTML/Element/img/favicon144.png',
+    children: [{ text: '' }],
+  },
+]
+
+describe('roundtrip', () => {
+  it('images', () => {
+    expect(deserialize(serialize(children))).toEqual(children)
+  })
+})
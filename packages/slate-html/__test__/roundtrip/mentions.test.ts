@@ -0,0 +1,45 @@
+import { Descendant } from 'slate'
+import { deserialize, serialize } from '@src/index'
+
+// site/pages/mentions.tsx
+const children: Descendant[] = [
+  {
+    type: 'paragraph',
+    children: [
+      { text: 'This example shows how you might implement a simple ' },
+      { text: '@-mentions', bold: true },
+      {
+        text:
+          ' feature that lets users autocomplete mentioning a user by their username. Which, in this case means Star Wars characters. The ',
+      },
+      { text: 'mentions', bold: true },
+      { text: ' are rendered as ' },
+      { text: 'void inline elements', code: true },
+      { text: ' inside the document.' },
+    ],
+  },
+  {
+    type: 'paragraph',
+    children: [
+      { text: 'Try mentioning characters, like ' },
+      {
+        type: 'mention',
+        character: 'R2-D2',
+        children: [{ text: '', bold: true }],
+      },
+      { text: ' or ' },
+      {
+        type: 'mention',
+        character: 'Mace Windu',
+        children: [{ text: '' }],
+      },
+      { text: '!' },
+    ],
+  },
+]
+
+describe('roundtrip', () => {
+  it('mentions', () => {
+    expect(deserialize(serialize(children))).toEqual(children)
+  })
+})
@@ -0,0 +1,58 @@
+import { Descendant } from 'slate'
+import { deserialize, serialize } from '@src/index'
+
+// site/pages/index.tsx
+const children: Descendant[] = [
+  {
+    children: [
+      { children: [{ text: '111' }] },
+      { children: [{ text: '222' }] },
+    ],
+  } as Descendant,
+]
+
+// site/pages/index.tsx 的 Element 和 Leaf 能渲染的 block 和 mark
+const blocks: Descendant[] = [
+  { type: 'heading-one', children: [{ text: 'Heading' }] },
+  { type: 'heading-two', align: 'center', children: [{ text: 'Subheading' }] },
+  { type: 'block-quote', children: [{ text: 'A wise quote.' }] },
+  {
+    type: 'paragraph',
+    children: [
+      { text: 'Plain, ' },
+      { text: 'bold', bold: true },
+      { text: ', ' },
+      { text: 'italic', italic: true },
+      { text: ', ' },
+      { text: 'underline', underline: true },
+      { text: ' and ' },
+      { text: 'code', bold: true, code: true },
+      { text: '.' },
+    ],
+  },
+  {
+    type: 'bulleted-list',
+    children: [
+      { type: 'list-item', children: [{ text: 'one' }] },
+      { type: 'list-item', children: [{ text: 'two' }] },
+    ],
+  },
+  {
+    type: 'numbered-list',
+    children: [
+      { type: 'list-item', children: [{ text: 'first' }] },
+      { type: 'list-item', children: [{ text: 'second' }] },
+    ],
+  },
+]
+
+describe('roundtrip', () => {
+  it('rich-text', () => {
+    expect(serialize(children)).toBe('<div><div>111</div><div>222</div></div>')
+    expect(deserialize(serialize(children))).toEqual(children)
+  })
+
+  it('rich-text blocks', () => {
+    expect(deserialize(serialize(blocks))).toEqual(blocks)
+  })
+})
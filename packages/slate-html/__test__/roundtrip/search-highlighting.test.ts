@@ -0,0 +1,29 @@
+import { Descendant } from 'slate'
+import { deserialize, serialize } from '@src/index'
+
+// site/pages/search-highlighting.tsx
+const children: Descendant[] = [
+  {
+    type: 'paragraph',
+    children: [
+      {
+        text:
+          'This is editable text that you can search. As you search, it looks for matching strings of text, and adds ',
+      },
+      { text: 'decorations', bold: true },
+      { text: ' to them in realtime.' },
+    ],
+  },
+  {
+    type: 'paragraph',
+    children: [
+      { text: 'Try it out for yourself by typing in the search box above!' },
+    ],
+  },
+]
+
+describe('roundtrip', () => {
+  it('search-highlighting', () => {
+    expect(deserialize(serialize(children))).toEqual(children)
+  })
+})
@@ -0,0 +1,281 @@
+import { Descendant, Element, Text } from 'slate';
+import { defaultRules, HtmlElementRule, HtmlRules } from './rules';
+
+const ELEMENT_NODE = 1;
+const TEXT_NODE = 3;
+
+type Marks = Record<string, unknown>;
+
+/**
+ * 内容不是文档文本的标签，反序列化的时候连同子节点一起丢掉（注释节点不是 element，本来就会丢掉）
+ */
+const IGNORED_TAGS = ['script', 'style', 'template', 'head', 'meta', 'title'];
+
+/**
+ * 值是 url 的 html 属性
+ */
+const URL_ATTRIBUTES = ['href', 'src'];
+
+/**
+ * 反序列化的 url 只允许 http、https、mailto 和相对路径，避免粘贴进来的 javascript: 之类的链接。
+ * 浏览器解析 url 的时候会忽略空白和控制字符，判断协议之前先去掉
+ */
+const isSafeUrl = (url: string) => {
+  const match = /^([a-z][a-z0-9+.-]*):/i.exec(url.replace(/[\u0000-\u0020\u007f]/g, ''));
+  return !match || ['http', 'https', 'mailto'].includes(match[1].toLowerCase());
+}
+
+/**
+ * 不在 html 里面的属性，JSON 解析失败的时候当作字符串
+ */
+const parseValue = (value: string): unknown => {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * data-slate-marks 里面只保留 rules.marks 里面有的 mark
+ */
+const parseMarks = (value: string, rules: HtmlRules): Marks => {
+  const marks = parseValue(value);
+  const result: Marks = {};
+  if (marks && typeof marks === 'object') {
+    for (const [key, mark] of Object.entries(marks)) {
+      if (key in rules.marks) {
+        result[key] = mark;
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * void 节点 data-slate-children 上的子节点，只保留 text 和 rules.marks 里面有的 mark
+ */
+const parseVoidChildren = (value: string | null, rules: HtmlRules): Descendant[] => {
+  const children = value === null ? null : parseValue(value);
+  const texts = Array.isArray(children) ? children.filter(child => Text.isText(child)) : [];
+  if (!texts.length) {
+    return [{ text: '' }];
+  }
+
+  return texts.map(({ text, ...marks }) => ({ ...parseMarks(JSON.stringify(marks), rules), text }));
+}
+
+/**
+ * 找到 el 对应的 element 类型：优先使用 data-slate-type，没有的话按照规则匹配标签。
+ * 粘贴进来的 html 可能带着任意的 data-slate-type，只认 rules.elements 里面有的类型
+ */
+const findElementType = (el: HTMLElement, rules: HtmlRules): string | undefined => {
+  const type = el.getAttribute('data-slate-type');
+  if (type !== null && type in rules.elements) {
+    return type;
+  }
+
+  const tag = el.nodeName.toLowerCase();
+  return Object.keys(rules.elements).find(key => {
+    const rule = rules.elements[key];
+    return rule.match ? rule.match(el) : rule.tag === tag;
+  });
+}
+
+const findMark = (el: HTMLElement, rules: HtmlRules): string | undefined => {
+  const tag = el.nodeName.toLowerCase();
+  return Object.keys(rules.marks).find(key => {
+    const { tag: markTag, aliases = [], match } = rules.marks[key];
+    return match ? match(el) : markTag === tag || aliases.includes(tag);
+  });
+}
+
+const isInline = (node: Descendant, rules: HtmlRules) => {
+  return Text.isText(node) || !!(typeof node.type === 'string' && rules.elements[node.type]?.isInline);
+}
+
+/**
+ * 跟 slate 的 normalize 规则一致：
+ *   - 相邻的 mark 相同的 text 合并
+ *   - inline 节点前后必须是 text 节点
+ *   - 至少有一个子节点
+ *   - 子节点里面有 block 的时候，去掉只有空白字符的 text（html 格式化产生的换行和缩进）
+ */
+const normalizeChildren = (children: Descendant[], rules: HtmlRules): Descendant[] => {
+  const hasBlocks = children.some(child => !isInline(child, rules));
+  const nodes = hasBlocks
+    ? children.filter(child => !Text.isText(child) || child.text.trim() !== '')
+    : children;
+
+  if (hasBlocks) {
+    return nodes.length ? nodes : [{ text: '' }];
+  }
+
+  const result: Descendant[] = [];
+  for (const node of nodes) {
+    const prev = result[result.length - 1];
+
+    if (Text.isText(node)) {
+      if (prev && Text.isText(prev) && Text.equals(prev, node, { isEqualText: false })) {
+        result[result.length - 1] = { ...prev, text: prev.text + node.text };
+      } else {
+        result.push(node);
+      }
+      continue;
+    }
+
+    if (!prev || !Text.isText(prev)) {
+      result.push({ text: '' });
+    }
+    result.push(node);
+  }
+
+  const last = result[result.length - 1];
+  if (!last || !Text.isText(last)) {
+    result.push({ text: '' });
+  }
+
+  return result;
+}
+
+const deserializeElement = (
+  el: HTMLElement,
+  type: string | undefined,
+  rule: HtmlElementRule | undefined,
+  rules: HtmlRules,
+): Element => {
+  const element: Record<string, unknown> = {};
+  if (type !== undefined) {
+    element.type = type;
+  }
+
+  // 按照规则对应的 html 属性
+  const attributes = rule?.attributes || {};
+  for (const key of Object.keys(attributes)) {
+    const value = el.getAttribute(attributes[key]);
+    if (value !== null) {
+      element[key] = value;
+    }
+  }
+
+  // 其他属性序列化在 data-slate-* 上，只接受规则里面声明了的属性
+  const properties = [...(rule?.properties || []), ...Object.keys(attributes)];
+  for (const key of properties) {
+    const value = el.getAttribute(`data-slate-${key}`);
+    if (value !== null) {
+      element[key] = parseValue(value);
+    }
+  }
+
+  // 规则里面对应 href、src 的属性，不管是从 html 属性还是 data-slate-* 来的，不安全的 url 都去掉
+  for (const key of Object.keys(attributes)) {
+    const value = element[key];
+    if (URL_ATTRIBUTES.includes(attributes[key]) && typeof value === 'string' && !isSafeUrl(value)) {
+      delete element[key];
+    }
+  }
+
+  // void 节点的子节点不是空 text 的时候序列化在 data-slate-children 上
+  const children = rule?.isVoid
+    ? parseVoidChildren(el.getAttribute('data-slate-children'), rules)
+    : normalizeChildren(deserializeChildren(el, {}, rules), rules);
+
+  return { ...element, children } as Element;
+}
+
+const deserializeChildren = (el: Node, marks: Marks, rules: HtmlRules): Descendant[] => {
+  return Array.from(el.childNodes).flatMap(child => deserializeNode(child, marks, rules));
+}
+
+/**
+ * 一个 DOM 节点可能对应多个 slate 节点（mark 标签、不认识的标签会展开成子节点），所以返回数组
+ */
+const deserializeNode = (node: Node, marks: Marks, rules: HtmlRules): Descendant[] => {
+  if (node.nodeType === TEXT_NODE) {
+    const text = node.textContent || '';
+    return text ? [{ ...marks, text }] : [];
+  }
+
+  if (node.nodeType !== ELEMENT_NODE) {
+    return [];
+  }
+
+  const el = node as HTMLElement;
+  const tag = el.nodeName.toLowerCase();
+
+  if (IGNORED_TAGS.includes(tag)) {
+    return [];
+  }
+
+  if (tag === 'br') {
+    return [{ ...marks, text: '\n' }];
+  }
+
+  const type = findElementType(el, rules);
+  if (type !== undefined) {
+    return [deserializeElement(el, type, rules.elements[type], rules)];
+  }
+
+  // 没有 type 的 element 序列化成 div
+  if (tag === 'div') {
+    return [deserializeElement(el, undefined, undefined, rules)];
+  }
+
+  const mark = findMark(el, rules);
+  const dataMarks = el.getAttribute('data-slate-marks');
+  const childMarks: Marks = {
+    ...marks,
+    ...(mark ? { [mark]: true } : {}),
+    ...(dataMarks ? parseMarks(dataMarks, rules) : {}),
+  };
+
+  // mark 标签和不认识的标签都展开成子节点
+  const children = deserializeChildren(el, childMarks, rules);
+
+  // 空的 mark 标签对应 text 为空的节点
+  return children.length || (!mark && !dataMarks) ? children : [{ ...childMarks, text: '' }];
+}
+
+/**
+ * 把 html 反序列化为 slate 的节点。
+ * 传入字符串的时候需要 DOMParser，在 node 环境中可以直接传入 DOM shim（比如 jsdom）创建的 document，
+ * 或者把 DOM shim 的 DOMParser 设置到 globalThis 上
+ */
+export const deserialize = (html: string | Document, rules: HtmlRules = defaultRules): Descendant[] => {
+  let doc: Document;
+  if (typeof html === 'string') {
+    if (typeof DOMParser === 'undefined') {
+      throw new Error('deserialize 需要 DOMParser，node 环境中请传入 DOM shim 创建的 document');
+    }
+    doc = new DOMParser().parseFromString(html, 'text/html');
+  } else {
+    doc = html;
+  }
+
+  const nodes = deserializeChildren(doc.body, {}, rules);
+  const result: Descendant[] = [];
+  let inlines: Descendant[] = [];
+
+  // 不在 block 里面的 text 和 inline 用 defaultElement 包起来
+  const flush = () => {
+    if (inlines.some(node => !Text.isText(node) || node.text.trim() !== '')) {
+      result.push({
+        type: rules.defaultElement,
+        children: normalizeChildren(inlines, rules),
+      } as Element);
+    }
+    inlines = [];
+  }
+
+  for (const node of nodes) {
+    if (isInline(node, rules)) {
+      inlines.push(node);
+    } else {
+      flush();
+      result.push(node);
+    }
+  }
+  flush();
+
+  return result;
+}
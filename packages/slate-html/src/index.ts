@@ -0,0 +1,3 @@
+export * from './rules';
+export * from './serialize';
+export * from './deserialize';
@@ -0,0 +1,83 @@
+/**
+ * 一种 element（按照 element.type 区分）和 html 标签的对应关系
+ *   - tag: 序列化使用的标签
+ *   - attributes: element 属性和 html 属性的对应关系，比如 image 的 url 对应 img 的 src。
+ *     其他没有对应关系的属性会序列化成 data-slate-* 属性，保证反序列化之后不丢失
+ *   - isVoid: void 节点不序列化子节点，反序列化的时候子节点是一个空的 text（子节点带了属性的时候保存在 data-slate-children 上）
+ *   - isInline: inline 节点反序列化的时候前后需要有 text 节点，跟 slate 的 normalize 规则一致
+ *   - match: 没有 data-slate-type 的 html（比如从别的网页粘贴过来的）是否可以识别为这个 element，默认按照标签判断
+ *   - properties: 反序列化的时候可以从 data-slate-* 上读取的属性。粘贴进来的 html 不可信，没有声明的属性都丢掉
+ */
+export interface HtmlElementRule {
+  tag: string;
+  attributes?: Record<string, string>;
+  properties?: string[];
+  isVoid?: boolean;
+  isInline?: boolean;
+  match?: (el: Element) => boolean;
+}
+
+/**
+ * 一种 mark 和 html 标签的对应关系。反序列化的时候 data-slate-marks 上只保留有规则的 mark
+ *   - aliases: 反序列化的时候也可以识别为这个 mark 的标签
+ *   - match: html 是否可以识别为这个 mark，默认按照 tag 和 aliases 判断
+ */
+export interface HtmlMarkRule {
+  tag: string;
+  aliases?: string[];
+  match?: (el: Element) => boolean;
+}
+
+/**
+ * elements 和 marks 的顺序就是匹配的优先级，marks 的顺序也是序列化时嵌套的顺序（前面的在外层）
+ * defaultElement: 不在任何 block 里面的文本，反序列化的时候用这个 type 的 element 包起来
+ */
+export interface HtmlRules {
+  elements: Record<string, HtmlElementRule>;
+  marks: Record<string, HtmlMarkRule>;
+  defaultElement: string;
+}
+
+const never = () => false;
+
+/**
+ * Google Docs 复制的内容整个包在 <b id="docs-internal-guid-..." style="font-weight:normal"> 里面，
+ * 所以 font-weight 是 normal 的 b/strong 不算加粗
+ */
+const isBold = (el: Element) => {
+  const tag = el.nodeName.toLowerCase();
+  const { fontWeight } = (el as HTMLElement).style;
+  return (tag === 'strong' || tag === 'b') && fontWeight !== 'normal' && fontWeight !== '400';
+}
+
+/**
+ * site 里面的例子用到的 element 和 mark
+ */
+export const defaultRules: HtmlRules = {
+  elements: {
+    paragraph: { tag: 'p', properties: ['align'] },
+    'heading-one': { tag: 'h1', properties: ['align'] },
+    'heading-two': { tag: 'h2', properties: ['align'] },
+    'block-quote': { tag: 'blockquote', properties: ['align'] },
+    'bulleted-list': { tag: 'ul', properties: ['align'] },
+    'numbered-list': { tag: 'ol', properties: ['align'] },
+    'list-item': { tag: 'li', properties: ['align'] },
+    'check-list-item': { tag: 'div', properties: ['checked'], match: never },
+    image: { tag: 'img', attributes: { url: 'src' }, isVoid: true },
+    video: { tag: 'iframe', attributes: { url: 'src' }, isVoid: true },
+    mention: { tag: 'span', properties: ['character'], isVoid: true, isInline: true, match: never },
+    link: { tag: 'a', attributes: { url: 'href' }, isInline: true },
+    table: { tag: 'table' },
+    'table-row': { tag: 'tr' },
+    'table-cell': { tag: 'td' },
+  },
+  marks: {
+    bold: { tag: 'strong', aliases: ['b'], match: isBold },
+    italic: { tag: 'em', aliases: ['i'] },
+    underline: { tag: 'u' },
+    underlined: { tag: 'u' },
+    strikethrough: { tag: 's', aliases: ['del', 'strike'] },
+    code: { tag: 'code' },
+  },
+  defaultElement: 'paragraph',
+}
@@ -0,0 +1,113 @@
+import { Descendant, Element, Text } from 'slate';
+import { defaultRules, HtmlRules } from './rules';
+
+/**
+ * 没有结束标签的 html 元素
+ */
+const VOID_TAGS = ['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr'];
+
+const escapeText = (text: string) => {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+const escapeAttribute = (value: string) => {
+  return escapeText(value).replace(/"/g, '&quot;');
+}
+
+const renderTag = (tag: string, attributes: Record<string, string>, children: string) => {
+  const attrs = Object.keys(attributes)
+    .map(key => ` ${key}="${escapeAttribute(attributes[key])}"`)
+    .join('');
+
+  return VOID_TAGS.includes(tag)
+    ? `<${tag}${attrs}>`
+    : `<${tag}${attrs}>${children}</${tag}>`;
+}
+
+/**
+ * 同一个标签对应多个 mark 的时候（比如 underline 和 underlined 都是 u），只有第一个 mark 可以用标签表示
+ */
+const isCanonicalMark = (rules: HtmlRules, mark: string) => {
+  const { tag } = rules.marks[mark];
+  return Object.keys(rules.marks).find(key => rules.marks[key].tag === tag) === mark;
+}
+
+/**
+ * 有对应规则并且值是 true 的 mark 用标签嵌套，其他的 mark 放在 span 的 data-slate-marks 上
+ */
+const serializeText = (node: Text, rules: HtmlRules): string => {
+  const { text, ...marks } = node;
+  const rest: Record<string, unknown> = {};
+  let html = escapeText(text);
+
+  for (const key of Object.keys(marks)) {
+    if (!(key in rules.marks) || marks[key] !== true || !isCanonicalMark(rules, key)) {
+      rest[key] = marks[key];
+    }
+  }
+
+  if (Object.keys(rest).length) {
+    html = renderTag('span', { 'data-slate-marks': JSON.stringify(rest) }, html);
+  }
+
+  // 从里往外包，rules.marks 前面的 mark 在外层
+  for (const key of Object.keys(rules.marks).reverse()) {
+    if (marks[key] === true && isCanonicalMark(rules, key)) {
+      html = renderTag(rules.marks[key].tag, {}, html);
+    }
+  }
+
+  return html;
+}
+
+const isEmptyChildren = (children: Descendant[]) => {
+  return children.length === 1 && Text.isText(children[0]) && Object.keys(children[0]).length === 1 && children[0].text === '';
+}
+
+/**
+ * element 的 type 总是序列化成 data-slate-type，其他属性按照规则序列化成 html 属性，没有规则的序列化成 data-slate-*
+ * 没有 type 的 element 序列化成 div
+ */
+const serializeElement = (node: Element, rules: HtmlRules): string => {
+  const { children, type, ...properties } = node;
+  const rule = typeof type === 'string' ? rules.elements[type] : undefined;
+  const attributes: Record<string, string> = {};
+
+  if (type !== undefined) {
+    attributes['data-slate-type'] = type;
+  }
+
+  for (const key of Object.keys(properties)) {
+    const value = properties[key];
+    const name = rule?.attributes?.[key];
+    if (name && typeof value === 'string') {
+      attributes[name] = value;
+    } else {
+      attributes[`data-slate-${key}`] = JSON.stringify(value);
+    }
+  }
+
+  // void 节点不渲染子节点，子节点不是空 text 的时候（比如带了 mark）放在 data-slate-children 上
+  if (rule?.isVoid && !isEmptyChildren(children)) {
+    attributes['data-slate-children'] = JSON.stringify(children);
+  }
+
+  const html = rule?.isVoid ? '' : serializeNodes(children, rules);
+  return renderTag(rule?.tag || 'div', attributes, html);
+}
+
+const serializeNodes = (nodes: Descendant[], rules: HtmlRules): string => {
+  return nodes
+    .map(node => Text.isText(node) ? serializeText(node, rules) : serializeElement(node, rules))
+    .join('');
+}
+
+/**
+ * 把 slate 的节点序列化为 html 字符串，不依赖 DOM，可以在服务端使用
+ */
+export const serialize = (nodes: Descendant[], rules: HtmlRules = defaultRules): string => {
+  return serializeNodes(nodes, rules);
+}
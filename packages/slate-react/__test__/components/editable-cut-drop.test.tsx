@@ -0,0 +1,125 @@
+import React from 'react'
+import { fireEvent, render } from '@testing-library/react'
+import { createEditor, Descendant, Node, Range, Transforms } from 'slate'
+import { HistoryEditor, withHistory } from 'slate-history'
+import { Editable, ReactEditor, Slate, withReact } from '@src/index'
+
+/**
+ * jsdom 没有 DataTransfer，只需要 getData 和 setData
+ */
+const createData = () => {
+  const store = new Map<string, string>()
+  return {
+    getData: (type: string) => store.get(type) || '',
+    setData: (type: string, value: string) => {
+      store.set(type, value)
+    },
+  } as DataTransfer
+}
+
+const renderEditor = (value: Descendant[]) => {
+  const editor = withReact(withHistory(createEditor()))
+  const utils = render(
+    <Slate editor={editor} value={value}>
+      <Editable scrollSelectionIntoView={() => {}} />
+    </Slate>
+  )
+  return { editor, ...utils }
+}
+
+/**
+ * 第 index 个 block 的文本节点对应的 DOM 文本
+ */
+const getDOMText = (editor: ReactEditor, index: number) => {
+  const [text] = Node.texts(editor.children[index])
+  return ReactEditor.toDOMNode(editor, text[0]).querySelector('[data-slate-string]')!.firstChild!
+}
+
+describe('Editable cut and drop', () => {
+  // jsdom 没有拖拽事件，也不能根据坐标找到光标的位置
+  const caretRangeFromPoint = jest.fn<globalThis.Range, [number, number]>()
+
+  beforeAll(() => {
+    (window as any).DragEvent = class DragEvent extends MouseEvent {}
+    document.caretRangeFromPoint = caretRangeFromPoint
+  })
+
+  afterAll(() => {
+    delete (window as any).DragEvent
+    delete (document as Partial<Document>).caretRangeFromPoint
+  })
+
+  const dropAt = (node: globalThis.Node, offset: number) => {
+    const range = document.createRange()
+    range.setStart(node, offset)
+    range.setEnd(node, offset)
+    caretRangeFromPoint.mockReturnValueOnce(range)
+  }
+
+  it('cuts the selected fragment', () => {
+    const { editor } = renderEditor([
+      { type: 'paragraph', children: [{ text: 'one' }] },
+      { type: 'paragraph', children: [{ text: 'two' }] },
+    ])
+    Transforms.select(editor, { anchor: { path: [0, 0], offset: 1 }, focus: { path: [1, 0], offset: 1 } })
+
+    const clipboardData = createData()
+    fireEvent.cut(getDOMText(editor, 0), { clipboardData })
+
+    expect(editor.children.map(Node.string)).toEqual(['owo'])
+    expect(clipboardData.getData('text/plain')).toBe('ne\nt')
+    expect(clipboardData.getData('application/x-slate-fragment')).not.toBe('')
+  })
+
+  it('moves the dragged text inside the editor and undoes it in one step', () => {
+    const { editor } = renderEditor([
+      { type: 'paragraph', children: [{ text: 'hello world' }] },
+      { type: 'paragraph', children: [{ text: 'drop here' }] },
+    ])
+    Transforms.select(editor, { anchor: { path: [0, 0], offset: 0 }, focus: { path: [0, 0], offset: 6 } })
+
+    const dataTransfer = createData()
+    fireEvent.dragStart(getDOMText(editor, 0), { dataTransfer })
+    expect(dataTransfer.getData('text/plain')).toBe('hello ')
+
+    const target = getDOMText(editor, 1)
+    dropAt(target, 5)
+    fireEvent.drop(target, { dataTransfer, clientX: 10, clientY: 10 })
+
+    expect(editor.children.map(Node.string)).toEqual(['world', 'drop hello here'])
+
+    HistoryEditor.undo(editor)
+    expect(editor.children.map(Node.string)).toEqual(['hello world', 'drop here'])
+  })
+
+  it('does not move text dropped inside the dragged range', () => {
+    const { editor } = renderEditor([
+      { type: 'paragraph', children: [{ text: 'hello world' }] },
+    ])
+    const dragged = { anchor: { path: [0, 0], offset: 0 }, focus: { path: [0, 0], offset: 6 } }
+    Transforms.select(editor, dragged)
+
+    const dataTransfer = createData()
+    const text = getDOMText(editor, 0)
+    fireEvent.dragStart(text, { dataTransfer })
+    dropAt(text, 3)
+    fireEvent.drop(text, { dataTransfer, clientX: 10, clientY: 10 })
+
+    expect(editor.children.map(Node.string)).toEqual(['hello world'])
+    expect(Range.equals(editor.selection!, dragged)).toBe(true)
+  })
+
+  it('inserts content dropped from outside the editor', () => {
+    const { editor } = renderEditor([
+      { type: 'paragraph', children: [{ text: 'drop here' }] },
+    ])
+
+    const dataTransfer = createData()
+    dataTransfer.setData('text/plain', 'outside ')
+    const target = getDOMText(editor, 0)
+    dropAt(target, 5)
+    fireEvent.drop(target, { dataTransfer, clientX: 10, clientY: 10 })
+
+    expect(editor.children.map(Node.string)).toEqual(['drop outside here'])
+  })
+})
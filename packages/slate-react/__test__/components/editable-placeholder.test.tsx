@@ -0,0 +1,71 @@
+import React from 'react'
+import { act, fireEvent, render } from '@testing-library/react'
+import { createEditor, Descendant, Node } from 'slate'
+import { Editable, ReactEditor, Slate, withReact } from '@src/index'
+
+const renderEditor = (value: Descendant[]) => {
+  const editor = withReact(createEditor())
+  const utils = render(
+    <Slate editor={editor} value={value}>
+      <Editable placeholder="Type something" scrollSelectionIntoView={() => {}} />
+    </Slate>
+  )
+  const getPlaceholder = () => utils.container.querySelector('[data-slate-placeholder]')
+  return { editor, getPlaceholder, ...utils }
+}
+
+describe('Editable placeholder', () => {
+  it('shows the placeholder only while the document is empty', async () => {
+    const { editor, getPlaceholder } = renderEditor([
+      { type: 'paragraph', children: [{ text: '' }] },
+    ])
+    expect(getPlaceholder()!.textContent).toBe('Type something')
+
+    await act(async () => {
+      editor.apply({ type: 'insert_text', path: [0, 0], offset: 0, text: 'a' })
+    })
+    expect(getPlaceholder()).toBeNull()
+
+    await act(async () => {
+      editor.apply({ type: 'remove_text', path: [0, 0], offset: 0, text: 'a' })
+    })
+    expect(getPlaceholder()).not.toBeNull()
+  })
+
+  it('hides the placeholder with more than one block', () => {
+    const { getPlaceholder } = renderEditor([
+      { type: 'paragraph', children: [{ text: '' }] },
+      { type: 'paragraph', children: [{ text: '' }] },
+    ])
+    expect(getPlaceholder()).toBeNull()
+  })
+
+  it('hides the placeholder while composing', () => {
+    const { getPlaceholder, container } = renderEditor([
+      { type: 'paragraph', children: [{ text: '' }] },
+    ])
+    const root = container.querySelector('[data-slate-editor]')!
+
+    fireEvent.compositionUpdate(root, { data: 'n' })
+    expect(getPlaceholder()).toBeNull()
+
+    fireEvent.compositionEnd(root, { data: '' })
+    expect(getPlaceholder()).not.toBeNull()
+  })
+
+  it('excludes the placeholder text in toSlatePoint', () => {
+    const { editor, getPlaceholder } = renderEditor([
+      { type: 'paragraph', children: [{ text: '' }] },
+    ])
+    const [[text, path]] = Node.texts(editor)
+    const leaf = ReactEditor.toDOMNode(editor, text).querySelector('[data-slate-leaf]')!
+
+    // 浏览器可能把光标放在 placeholder 的后面
+    const point = ReactEditor.toSlatePoint(editor, [leaf.lastChild!, 1], { exactMatch: false, suppressThrow: false })
+    expect(point).toEqual({ path, offset: 0 })
+
+    const placeholderText = getPlaceholder()!.firstChild!
+    expect(ReactEditor.toSlatePoint(editor, [placeholderText, 4], { exactMatch: false, suppressThrow: false }))
+      .toEqual({ path, offset: 0 })
+  })
+})
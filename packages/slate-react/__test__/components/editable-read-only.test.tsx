@@ -0,0 +1,108 @@
+import React from 'react'
+import { createEvent, fireEvent, render } from '@testing-library/react'
+import { createEditor, Descendant, Node, Transforms } from 'slate'
+import { Editable, ReactEditor, Slate, withReact } from '@src/index'
+
+const createData = (types: Record<string, string> = {}) => {
+  const store = new Map(Object.entries(types))
+  return {
+    getData: (type: string) => store.get(type) || '',
+    setData: (type: string, value: string) => {
+      store.set(type, value)
+    },
+  } as DataTransfer
+}
+
+const createValue = (): Descendant[] => [
+  { type: 'paragraph', children: [{ text: 'hello world' }] },
+]
+
+const renderEditor = (readOnly: boolean) => {
+  const editor = withReact(createEditor())
+  const utils = render(
+    <Slate editor={editor} value={createValue()}>
+      <Editable readOnly={readOnly} scrollSelectionIntoView={() => {}} />
+    </Slate>
+  )
+  Transforms.select(editor, { anchor: { path: [0, 0], offset: 0 }, focus: { path: [0, 0], offset: 6 } })
+  const [[text]] = Node.texts(editor)
+  const target = ReactEditor.toDOMNode(editor, text).querySelector('[data-slate-string]')!.firstChild!
+  return { editor, target, ...utils }
+}
+
+describe('Editable readOnly', () => {
+  const caretRangeFromPoint = jest.fn<globalThis.Range, [number, number]>()
+
+  beforeAll(() => {
+    (window as any).DragEvent = class DragEvent extends MouseEvent {}
+    document.caretRangeFromPoint = caretRangeFromPoint
+  })
+
+  afterAll(() => {
+    delete (window as any).DragEvent
+    delete (document as Partial<Document>).caretRangeFromPoint
+  })
+
+  it('renders a non-editable root', () => {
+    const { container } = renderEditor(true)
+    expect(container.querySelector('[data-slate-editor]')!.getAttribute('contenteditable')).toBe('false')
+  })
+
+  it('ignores beforeinput', () => {
+    const { editor, target } = renderEditor(true)
+    const event = new InputEvent('beforeinput', { inputType: 'deleteContentBackward', bubbles: true, cancelable: true })
+    target.dispatchEvent(event)
+
+    expect(event.defaultPrevented).toBe(false)
+    expect(Node.string(editor)).toBe('hello world')
+  })
+
+  it('handles beforeinput when editable', () => {
+    const { editor, target } = renderEditor(false)
+    const event = new InputEvent('beforeinput', { inputType: 'deleteContentBackward', bubbles: true, cancelable: true })
+    target.dispatchEvent(event)
+
+    expect(event.defaultPrevented).toBe(true)
+    expect(Node.string(editor)).toBe('world')
+  })
+
+  it('ignores cut', () => {
+    const { editor, target } = renderEditor(true)
+    const clipboardData = createData()
+    fireEvent.cut(target, { clipboardData })
+
+    expect(Node.string(editor)).toBe('hello world')
+    expect(clipboardData.getData('text/plain')).toBe('')
+  })
+
+  it('copies but does not move content dragged out', () => {
+    const { editor, target } = renderEditor(true)
+    const dataTransfer = createData()
+    const dragStart = createEvent.dragStart(target, { dataTransfer })
+    fireEvent(target, dragStart)
+
+    // 交给浏览器处理，编辑器自己不写入拖拽的数据
+    expect(dataTransfer.getData('application/x-slate-fragment')).toBe('')
+
+    const range = document.createRange()
+    range.setStart(target, 11)
+    range.setEnd(target, 11)
+    caretRangeFromPoint.mockReturnValueOnce(range)
+    const drop = createEvent.drop(target, { dataTransfer, clientX: 10, clientY: 10 })
+    fireEvent(target, drop)
+
+    expect(drop.defaultPrevented).toBe(false)
+    expect(Node.string(editor)).toBe('hello world')
+  })
+
+  it('ignores content dropped from outside', () => {
+    const { editor, target } = renderEditor(true)
+    const range = document.createRange()
+    range.setStart(target, 0)
+    range.setEnd(target, 0)
+    caretRangeFromPoint.mockReturnValueOnce(range)
+    fireEvent.drop(target, { dataTransfer: createData({ 'text/plain': 'outside' }), clientX: 10, clientY: 10 })
+
+    expect(Node.string(editor)).toBe('hello world')
+  })
+})
@@ -0,0 +1,73 @@
+import React from 'react'
+import { act, fireEvent, render } from '@testing-library/react'
+import { createEditor, Descendant, Node, Transforms } from 'slate'
+import { Editable, ReactEditor, Slate, withReact } from '@src/index'
+
+const createValue = (): Descendant[] => [
+  { type: 'paragraph', children: [{ text: 'one' }] },
+  { type: 'paragraph', children: [{ text: 'two' }] },
+]
+
+const renderEditor = () => {
+  const editor = withReact(createEditor())
+  const scrollSelectionIntoView = jest.fn()
+  const utils = render(
+    <>
+      <button>toolbar</button>
+      <Slate editor={editor} value={createValue()}>
+        <Editable scrollSelectionIntoView={scrollSelectionIntoView} />
+      </Slate>
+    </>
+  )
+  const select = async (offset: number) => {
+    await act(async () => {
+      Transforms.select(editor, { path: [1, 0], offset })
+    })
+  }
+  return { editor, scrollSelectionIntoView, select, ...utils }
+}
+
+describe('Editable scrollSelectionIntoView', () => {
+  it('scrolls when the selection is changed by the model', async () => {
+    const { editor, scrollSelectionIntoView, select } = renderEditor()
+    await select(1)
+
+    expect(scrollSelectionIntoView).toHaveBeenCalledTimes(1)
+    const [scrolledEditor, domRange] = scrollSelectionIntoView.mock.calls[0]
+    expect(scrolledEditor).toBe(editor)
+    expect(domRange.startContainer.textContent).toBe('two')
+    expect(domRange.startOffset).toBe(1)
+
+    // 选区没有变化的 re-render 不再滚动
+    await act(async () => {
+      editor.apply({ type: 'insert_text', path: [0, 0], offset: 0, text: '!' })
+    })
+    expect(scrollSelectionIntoView).toHaveBeenCalledTimes(1)
+  })
+
+  it('skips selections made with the pointer inside the editor', async () => {
+    const { editor, scrollSelectionIntoView, select } = renderEditor()
+    const [, [text]] = Array.from(Node.texts(editor))
+
+    fireEvent.mouseDown(ReactEditor.toDOMNode(editor, text))
+    await select(1)
+    expect(scrollSelectionIntoView).not.toHaveBeenCalled()
+
+    // 键盘操作之后的选区变化需要滚动
+    fireEvent.keyDown(ReactEditor.toDOMNode(editor, editor), { key: 'a' })
+    await select(2)
+    expect(scrollSelectionIntoView).toHaveBeenCalledTimes(1)
+  })
+
+  it('scrolls after a pointer down outside the editor', async () => {
+    const { editor, scrollSelectionIntoView, select, getByText } = renderEditor()
+    const [, [text]] = Array.from(Node.texts(editor))
+
+    fireEvent.mouseDown(ReactEditor.toDOMNode(editor, text))
+    await select(1)
+    fireEvent.mouseDown(getByText('toolbar'))
+    await select(2)
+
+    expect(scrollSelectionIntoView).toHaveBeenCalledTimes(1)
+  })
+})
@@ -0,0 +1,69 @@
+import React from 'react'
+import { act, render } from '@testing-library/react'
+import { createEditor, Node, Transforms } from 'slate'
+import { Editable, ReactEditor, Slate, withReact } from '@src/index'
+
+const renderEditor = async (offset: number) => {
+  const editor = withReact(createEditor())
+  render(
+    <Slate editor={editor} value={[{ type: 'paragraph', children: [{ text: 'one two three' }] }]}>
+      <Editable scrollSelectionIntoView={() => {}} />
+    </Slate>
+  )
+  await act(async () => {
+    Transforms.select(editor, { path: [0, 0], offset })
+  })
+  const [[text]] = Node.texts(editor)
+  const domText = ReactEditor.toDOMNode(editor, text).querySelector('[data-slate-string]')!.firstChild!
+  return { editor, domText }
+}
+
+/**
+ * 浏览器在 target range 中给出可视的行，jsdom 没有排版，直接指定行的范围
+ */
+const fireBeforeInput = async (
+  target: globalThis.Node,
+  inputType: string,
+  line?: [number, number],
+) => {
+  const event = new InputEvent('beforeinput', { inputType, bubbles: true, cancelable: true })
+  if (line) {
+    const range = new StaticRange({ startContainer: target, startOffset: line[0], endContainer: target, endOffset: line[1] })
+    event.getTargetRanges = () => [range]
+  }
+  await act(async () => {
+    target.dispatchEvent(event)
+  })
+}
+
+describe('Editable soft line deletion', () => {
+  it('deletes to the start of the visual line', async () => {
+    const { editor, domText } = await renderEditor(13)
+    await fireBeforeInput(domText, 'deleteSoftLineBackward', [8, 13])
+
+    expect(Node.string(editor)).toBe('one two ')
+    expect(editor.selection!.anchor).toEqual({ path: [0, 0], offset: 8 })
+  })
+
+  it('deletes to the end of the visual line', async () => {
+    const { editor, domText } = await renderEditor(4)
+    await fireBeforeInput(domText, 'deleteSoftLineForward', [4, 8])
+
+    expect(Node.string(editor)).toBe('one three')
+  })
+
+  it('deletes the entire visual line', async () => {
+    const { editor, domText } = await renderEditor(6)
+    await fireBeforeInput(domText, 'deleteEntireSoftLine', [4, 8])
+
+    expect(Node.string(editor)).toBe('one three')
+    expect(editor.selection!.anchor).toEqual({ path: [0, 0], offset: 4 })
+  })
+
+  it('falls back to the block without target ranges', async () => {
+    const { editor, domText } = await renderEditor(8)
+    await fireBeforeInput(domText, 'deleteSoftLineBackward')
+
+    expect(Node.string(editor)).toBe('three')
+  })
+})
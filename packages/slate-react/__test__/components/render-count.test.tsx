@@ -0,0 +1,90 @@
+import React from 'react'
+import { act, render } from '@testing-library/react'
+import { createEditor, Descendant, Element, NodeEntry, Range, Text } from 'slate'
+import { Editable, RenderElementProps, RenderLeafProps, Slate, withReact } from '@src/index'
+
+const BLOCKS = 1000
+
+const createValue = (): Descendant[] => {
+  return Array.from({ length: BLOCKS }, (_, i) => ({
+    type: 'paragraph',
+    children: [{ text: `block ${i}` }],
+  }))
+}
+
+/**
+ * 记录每个 block 的 renderElement 和 renderLeaf 被调用的次数
+ */
+const renderEditor = (decorate?: (entry: NodeEntry) => Range[]) => {
+  const editor = withReact(createEditor())
+  const elementRenders = new Map<Element, number>()
+  let leafRenders = 0
+
+  const renderElement = ({ attributes, children, element }: RenderElementProps) => {
+    elementRenders.set(element, (elementRenders.get(element) || 0) + 1)
+    return <p {...attributes}>{children}</p>
+  }
+
+  const renderLeaf = ({ attributes, children, leaf }: RenderLeafProps) => {
+    leafRenders++
+    return <span {...attributes} data-highlight={leaf.highlight ? true : undefined}>{children}</span>
+  }
+
+  const utils = render(
+    <Slate editor={editor} value={createValue()}>
+      <Editable renderElement={renderElement} renderLeaf={renderLeaf} decorate={decorate} />
+    </Slate>
+  )
+
+  const reset = () => {
+    elementRenders.clear()
+    leafRenders = 0
+  }
+
+  return { editor, utils, elementRenders, getLeafRenders: () => leafRenders, reset }
+}
+
+describe('Editable render count', () => {
+  it('only renders the changed block', async () => {
+    const { editor, elementRenders, getLeafRenders, reset } = renderEditor()
+    expect(elementRenders.size).toBe(BLOCKS)
+
+    reset()
+    await act(async () => {
+      editor.apply({ type: 'insert_text', path: [500, 0], offset: 0, text: 'x' })
+    })
+
+    expect(Array.from(elementRenders.keys())).toEqual([editor.children[500]])
+    expect(getLeafRenders()).toBe(1)
+  })
+
+  it('only renders blocks whose decorations change', async () => {
+    // 高亮包含 x 的 text，依赖的是 text 内容，没有变化的 block 拿到的 decorations 应该是同一个数组
+    const decorate = ([node, path]: NodeEntry) => {
+      const ranges: Range[] = []
+      if (Text.isText(node)) {
+        const offset = node.text.indexOf('x')
+        if (offset !== -1) {
+          ranges.push({ anchor: { path, offset }, focus: { path, offset: offset + 1 }, highlight: true } as Range)
+        }
+      }
+      return ranges
+    }
+
+    const { editor, utils, elementRenders, reset } = renderEditor(decorate)
+    expect(utils.container.querySelectorAll('[data-highlight]').length).toBe(0)
+
+    reset()
+    await act(async () => {
+      editor.apply({ type: 'insert_text', path: [10, 0], offset: 0, text: 'x' })
+    })
+    expect(Array.from(elementRenders.keys())).toEqual([editor.children[10]])
+    expect(utils.container.querySelectorAll('[data-highlight]').length).toBe(1)
+
+    reset()
+    await act(async () => {
+      editor.apply({ type: 'insert_text', path: [20, 0], offset: 0, text: 'y' })
+    })
+    expect(Array.from(elementRenders.keys())).toEqual([editor.children[20]])
+  })
+})
@@ -0,0 +1,61 @@
+import React from 'react'
+import { act, render } from '@testing-library/react'
+import { createEditor, Descendant, Editor, Node } from 'slate'
+import { Editable, RenderElementProps, Slate, useSlateSelector, withReact } from '@src/index'
+
+const createValue = (): Descendant[] => [
+  { type: 'paragraph', children: [{ text: 'one' }] },
+  { type: 'paragraph', children: [{ text: 'two' }] },
+]
+
+describe('useSlateSelector', () => {
+  it('skips re-renders when the selected value does not change', async () => {
+    const editor = withReact(createEditor())
+    let toolbarRenders = 0
+    let counterRenders = 0
+
+    // 在 Slate 里面、Editable 外面，只订阅块的数量
+    const Toolbar = () => {
+      const blocks = useSlateSelector(e => e.children.length)
+      toolbarRenders++
+      return <span data-testid="blocks">{blocks}</span>
+    }
+
+    // 在第一个块里面，只订阅第一个块的文本
+    const Counter = () => {
+      const length = useSlateSelector(e => Node.string(e.children[0]).length)
+      counterRenders++
+      return <span contentEditable={false}>{length}</span>
+    }
+
+    const renderElement = ({ attributes, children, element }: RenderElementProps) => (
+      <p {...attributes}>
+        {element === editor.children[0] && <Counter />}
+        {children}
+      </p>
+    )
+
+    const { getByTestId } = render(
+      <Slate editor={editor} value={createValue()}>
+        <Toolbar />
+        <Editable renderElement={renderElement} />
+      </Slate>
+    )
+    expect(toolbarRenders).toBe(1)
+    expect(counterRenders).toBe(1)
+
+    await act(async () => {
+      editor.apply({ type: 'insert_text', path: [1, 0], offset: 3, text: '!' })
+    })
+    expect(Editor.string(editor, [1])).toBe('two!')
+    expect(toolbarRenders).toBe(1)
+    expect(counterRenders).toBe(1)
+
+    await act(async () => {
+      editor.apply({ type: 'insert_node', path: [2], node: { type: 'paragraph', children: [{ text: 'three' }] } })
+    })
+    expect(getByTestId('blocks').textContent).toBe('3')
+    expect(toolbarRenders).toBe(2)
+    expect(counterRenders).toBe(1)
+  })
+})
@@ -0,0 +1,77 @@
+import React from 'react'
+import { render } from '@testing-library/react'
+import { createEditor, Descendant } from 'slate'
+import { Editable, ReactEditor, Slate, withReact } from '@src/index'
+
+const BLOCKS = 100
+// jsdom 没有布局，渲染出来的 block 都当作 50px 高
+const BLOCK_HEIGHT = 50
+
+const createValue = (): Descendant[] => {
+  return Array.from({ length: BLOCKS }, (_, i) => ({
+    type: 'paragraph',
+    children: [{ text: `block ${i}` }],
+  }))
+}
+
+const renderEditor = () => {
+  const editor = withReact(createEditor())
+  const utils = render(
+    <Slate editor={editor} value={createValue()}>
+      <Editable virtualize={{ estimatedBlockHeight: 30, overscan: 0 }} />
+    </Slate>
+  )
+  const getBlocks = () => utils.container.querySelectorAll('[data-slate-node="element"]')
+  const getGaps = () => Array.from(utils.container.querySelectorAll<HTMLElement>('[data-slate-gap]'))
+  return { editor, getBlocks, getGaps }
+}
+
+describe('Editable virtualize', () => {
+  const offsetHeight = Object.getOwnPropertyDescriptor(HTMLElement.prototype, 'offsetHeight')!
+  const scrollIntoView = jest.fn()
+
+  beforeAll(() => {
+    Object.defineProperty(HTMLElement.prototype, 'offsetHeight', {
+      configurable: true,
+      get() {
+        return this.dataset.slateNode === 'element' ? BLOCK_HEIGHT : 0
+      },
+    })
+    Element.prototype.scrollIntoView = scrollIntoView
+  })
+
+  afterAll(() => {
+    Object.defineProperty(HTMLElement.prototype, 'offsetHeight', offsetHeight)
+    delete (Element.prototype as Partial<Element>).scrollIntoView
+  })
+
+  it('sizes the gap with measured and estimated heights', () => {
+    const { getBlocks, getGaps } = renderEditor()
+
+    // 先按照预估高度渲染 ceil(768 / 30) = 26 个，测量之后只需要 ceil(768 / 50) = 16 个
+    const mounted = Math.ceil(window.innerHeight / BLOCK_HEIGHT)
+    expect(getBlocks().length).toBe(mounted)
+
+    // 测量过的 block 用实际高度，没有渲染过的用预估高度
+    const measured = Math.ceil(window.innerHeight / 30) - mounted
+    const [gap] = getGaps()
+    expect(gap.style.height).toBe(`${measured * BLOCK_HEIGHT + (BLOCKS - mounted - measured) * 30}px`)
+  })
+
+  it('mounts an off-screen block in toDOMNode', () => {
+    const { editor, getBlocks, getGaps } = renderEditor()
+    const mounted = getBlocks().length
+    const block = editor.children[80]
+
+    const el = ReactEditor.toDOMNode(editor, block)
+    expect(el.textContent).toBe('block 80')
+    expect(getBlocks().length).toBe(mounted + 1)
+    expect(scrollIntoView).toHaveBeenCalledTimes(1)
+
+    // 渲染出来的 block 把占位元素分成两段
+    const gaps = getGaps()
+    expect(gaps.length).toBe(2)
+    expect(gaps[0].nextElementSibling).toBe(el)
+    expect(ReactEditor.toSlateNode(editor, el)).toBe(block)
+  })
+})
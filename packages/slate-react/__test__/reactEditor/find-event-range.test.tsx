@@ -0,0 +1,95 @@
+import React from 'react'
+import { createEvent, fireEvent, render } from '@testing-library/react'
+import { createEditor, Descendant, Element } from 'slate'
+import { Editable, ReactEditor, RenderElementProps, Slate, withReact } from '@src/index'
+
+const createValue = (): Descendant[] => [
+  { type: 'paragraph', children: [{ text: 'before' }] },
+  { type: 'image', children: [{ text: '' }] },
+  { type: 'paragraph', children: [{ text: 'after' }] },
+]
+
+const renderElement = ({ attributes, children, element }: RenderElementProps) => {
+  if (element.type === 'image') {
+    return (
+      <div {...attributes}>
+        <img contentEditable={false} alt="" />
+        {children}
+      </div>
+    )
+  }
+  return <p {...attributes}>{children}</p>
+}
+
+/**
+ * 派发之后 event.target 才是 node，mousemove 不会触发 Editable 自己的事件处理
+ */
+const pointAt = (node: globalThis.Node, clientX: number, clientY: number) => {
+  const event = createEvent.mouseMove(node, { clientX, clientY })
+  fireEvent(node, event)
+  return event as MouseEvent
+}
+
+const renderEditor = () => {
+  const editor = withReact(createEditor())
+  const { isVoid } = editor
+  editor.isVoid = (element: Element) => element.type === 'image' || isVoid(element)
+  render(
+    <Slate editor={editor} value={createValue()}>
+      <Editable renderElement={renderElement} scrollSelectionIntoView={() => {}} />
+    </Slate>
+  )
+  return editor
+}
+
+describe('ReactEditor.findEventRange', () => {
+  const caretRangeFromPoint = jest.fn<globalThis.Range | null, [number, number]>()
+
+  beforeAll(() => {
+    document.caretRangeFromPoint = caretRangeFromPoint
+  })
+
+  afterAll(() => {
+    delete (document as Partial<Document>).caretRangeFromPoint
+  })
+
+  it('resolves the caret position under the pointer', () => {
+    const editor = renderEditor()
+    const text = ReactEditor.toDOMNode(editor, editor.children[2]).querySelector('[data-slate-string]')!.firstChild!
+    const range = document.createRange()
+    range.setStart(text, 3)
+    range.setEnd(text, 3)
+    caretRangeFromPoint.mockReturnValueOnce(range)
+
+    const event = pointAt(text, 10, 20)
+    expect(ReactEditor.findEventRange(editor, event)).toEqual({
+      anchor: { path: [2, 0], offset: 3 },
+      focus: { path: [2, 0], offset: 3 },
+    })
+    expect(caretRangeFromPoint).toHaveBeenLastCalledWith(10, 20)
+  })
+
+  it('resolves the point before or after a void block by the pointer position', () => {
+    const editor = renderEditor()
+    const image = ReactEditor.toDOMNode(editor, editor.children[1])
+    image.getBoundingClientRect = () => ({ top: 100, height: 50, left: 0, width: 200 } as DOMRect)
+    const img = image.querySelector('img')!
+
+    const top = pointAt(img, 10, 110)
+    expect(ReactEditor.findEventRange(editor, top).anchor).toEqual({ path: [0, 0], offset: 6 })
+
+    const bottom = pointAt(img, 10, 140)
+    expect(ReactEditor.findEventRange(editor, bottom).anchor).toEqual({ path: [2, 0], offset: 0 })
+  })
+
+  it('describes the event when no caret is found', () => {
+    const editor = renderEditor()
+    const text = ReactEditor.toDOMNode(editor, editor.children[0])
+    caretRangeFromPoint.mockReturnValueOnce(null)
+
+    const event = pointAt(text, 10, 20)
+    expect(() => ReactEditor.findEventRange(editor, event)).toThrow(
+      'Cannot resolve a Slate range from a DOM event: mousemove at (10, 20)'
+    )
+  })
+})
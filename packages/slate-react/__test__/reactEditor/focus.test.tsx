@@ -0,0 +1,66 @@
+import React from 'react'
+import { act, fireEvent, render } from '@testing-library/react'
+import { createEditor, Transforms } from 'slate'
+import { Editable, ReactEditor, Slate, withReact } from '@src/index'
+
+const renderEditor = () => {
+  const editor = withReact(createEditor())
+  render(
+    <Slate editor={editor} value={[{ type: 'paragraph', children: [{ text: 'hello' }] }]}>
+      <Editable scrollSelectionIntoView={() => {}} />
+    </Slate>
+  )
+  const el = ReactEditor.toDOMNode(editor, editor)
+  const select = async (offset: number) => {
+    await act(async () => {
+      Transforms.select(editor, { path: [0, 0], offset })
+    })
+  }
+  return { editor, el, select }
+}
+
+describe('ReactEditor focus', () => {
+  it('focuses the editor and restores the model selection', async () => {
+    const { editor, el, select } = renderEditor()
+    await select(2)
+    window.getSelection()!.removeAllRanges()
+
+    act(() => ReactEditor.focus(editor))
+    expect(document.activeElement).toBe(el)
+    expect(ReactEditor.isFocused(editor)).toBe(true)
+
+    const domSelection = window.getSelection()!
+    expect(domSelection.rangeCount).toBe(1)
+    expect(domSelection.anchorNode!.textContent).toBe('hello')
+    expect(domSelection.anchorOffset).toBe(2)
+  })
+
+  it('blurs the editor', () => {
+    const { editor, el } = renderEditor()
+    act(() => ReactEditor.focus(editor))
+
+    act(() => ReactEditor.blur(editor))
+    expect(document.activeElement).not.toBe(el)
+    expect(ReactEditor.isFocused(editor)).toBe(false)
+  })
+
+  it('tracks focus and blur events', () => {
+    const { editor, el } = renderEditor()
+
+    fireEvent.focus(el)
+    expect(ReactEditor.isFocused(editor)).toBe(true)
+
+    fireEvent.blur(el)
+    expect(ReactEditor.isFocused(editor)).toBe(false)
+  })
+
+  it('clears both the model and the DOM selection on deselect', async () => {
+    const { editor, select } = renderEditor()
+    await select(2)
+    expect(window.getSelection()!.rangeCount).toBe(1)
+
+    await act(async () => ReactEditor.deselect(editor))
+    expect(editor.selection).toBeNull()
+    expect(window.getSelection()!.rangeCount).toBe(0)
+  })
+})
@@ -0,0 +1,119 @@
+import { createEditor, Descendant, Node, Transforms } from 'slate'
+import { defaultRules, HtmlRules } from 'slate-html'
+import { withReact } from '@src/index'
+
+const createReactEditor = (children: Descendant[], htmlRules?: HtmlRules) => {
+  const editor = withReact(createEditor(), { htmlRules })
+  editor.children = children
+  return editor
+}
+
+/**
+ * jsdom 没有 DataTransfer，只需要 getData 和 setData
+ */
+const createData = (types: Record<string, string> = {}) => {
+  const store = new Map(Object.entries(types))
+  return {
+    getData: (type: string) => store.get(type) || '',
+    setData: (type: string, value: string) => {
+      store.set(type, value)
+    },
+  } as DataTransfer
+}
+
+const encodeFragment = (fragment: Descendant[]) => {
+  return window.btoa(encodeURIComponent(JSON.stringify(fragment)))
+}
+
+/**
+ * 光标在第一个段落的末尾，粘贴的第一个 block 合并到这个段落里面
+ */
+const createEditorAtEnd = (htmlRules?: HtmlRules) => {
+  const editor = createReactEditor([{ type: 'paragraph', children: [{ text: 'x' }] }], htmlRules)
+  Transforms.select(editor, { path: [0, 0], offset: 1 })
+  return editor
+}
+
+describe('withReact insertData', () => {
+  it('prefers the slate fragment over html and plain text', () => {
+    const editor = createEditorAtEnd()
+    editor.insertData(createData({
+      'application/x-slate-fragment': encodeFragment([
+        { type: 'paragraph', children: [{ text: 'a' }] },
+        { type: 'heading-one', children: [{ text: 'fragment', bold: true }] },
+      ]),
+      'text/html': '<p>html</p>',
+      'text/plain': 'text',
+    }))
+
+    expect(editor.children).toEqual([
+      { type: 'paragraph', children: [{ text: 'xa' }] },
+      { type: 'heading-one', children: [{ text: 'fragment', bold: true }] },
+    ])
+  })
+
+  it('uses html when there is no fragment', () => {
+    const editor = createEditorAtEnd()
+    editor.insertData(createData({
+      'text/html': '<p>a</p><h1>title <strong>b</strong></h1>',
+      'text/plain': 'text',
+    }))
+
+    expect(editor.children).toEqual([
+      { type: 'paragraph', children: [{ text: 'xa' }] },
+      { type: 'heading-one', children: [{ text: 'title ' }, { text: 'b', bold: true }] },
+    ])
+  })
+
+  it('falls back to plain text when html has no content', () => {
+    const editor = createEditorAtEnd()
+    editor.insertData(createData({
+      'text/html': '<script>alert(1)</script>',
+      'text/plain': 'text',
+    }))
+
+    expect(editor.children).toEqual([
+      { type: 'paragraph', children: [{ text: 'xtext' }] },
+    ])
+  })
+
+  it('splits multi-line plain text into blocks', () => {
+    const editor = createReactEditor([{ type: 'paragraph', children: [{ text: 'ab' }] }])
+    Transforms.select(editor, { path: [0, 0], offset: 1 })
+    editor.insertData(createData({ 'text/plain': 'one\r\ntwo\n\nthree' }))
+
+    expect(editor.children.map(block => Node.string(block))).toEqual(['aone', 'two', '', 'threeb'])
+    expect(editor.selection).toEqual({
+      anchor: { path: [3, 0], offset: 5 },
+      focus: { path: [3, 0], offset: 5 },
+    })
+  })
+
+  it('uses the htmlRules option to paste and copy html', () => {
+    const htmlRules: HtmlRules = {
+      ...defaultRules,
+      elements: { ...defaultRules.elements, callout: { tag: 'aside' } },
+    }
+    const html = '<p>a</p><aside>note</aside>'
+    const editor = createEditorAtEnd(htmlRules)
+    editor.insertData(createData({ 'text/html': html }))
+    expect(editor.children).toEqual([
+      { type: 'paragraph', children: [{ text: 'xa' }] },
+      { type: 'callout', children: [{ text: 'note' }] },
+    ])
+
+    Transforms.select(editor, [1])
+    const data = createData()
+    editor.setFragmentData(data)
+    expect(data.getData('text/html')).toContain('<aside')
+    expect(data.getData('text/plain')).toBe('note')
+
+    // 默认的规则不认识 aside，只能当作普通的段落
+    const other = createEditorAtEnd()
+    other.insertData(createData({ 'text/html': html }))
+    expect(other.children).toEqual([
+      { type: 'paragraph', children: [{ text: 'xa' }] },
+      { type: 'paragraph', children: [{ text: 'note' }] },
+    ])
+  })
+})
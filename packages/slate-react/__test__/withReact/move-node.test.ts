@@ -0,0 +1,103 @@
+import { createEditor, Descendant, Editor, Node, Path, Transforms } from 'slate'
+import { ReactEditor, withReact } from '@src/index'
+import { Key } from '@src/utils/key'
+
+const createReactEditor = (children: Descendant[]) => {
+  const editor = withReact(createEditor())
+  editor.children = children
+  return editor
+}
+
+/**
+ * 移动之前每个 path 上的节点的 key
+ */
+const getKeys = (editor: ReactEditor) => {
+  const keys = new Map<string, Key>()
+  for (const [node, path] of Node.nodes(editor)) {
+    keys.set(path.join(','), ReactEditor.findKey(editor, node))
+  }
+  return keys
+}
+
+const findKeyAt = (editor: ReactEditor, path: Path) => {
+  return ReactEditor.findKey(editor, Node.get(editor, path))
+}
+
+describe('withReact move_node', () => {
+  it('keeps keys when moving inside the same parent', async () => {
+    const editor = createReactEditor([
+      { type: 'paragraph', children: [{ text: 'a' }] },
+      { type: 'paragraph', children: [{ text: 'b' }] },
+      { type: 'paragraph', children: [{ text: 'c' }] },
+    ])
+    const keys = getKeys(editor)
+
+    Transforms.moveNodes(editor, { at: [0], to: [2] })
+    await Promise.resolve()
+
+    expect(Node.string(editor)).toBe('bca')
+    expect(findKeyAt(editor, [2])).toBe(keys.get('0'))
+    expect(findKeyAt(editor, [2, 0])).toBe(keys.get('0,0'))
+    expect(findKeyAt(editor, [0])).toBe(keys.get('1'))
+    expect(findKeyAt(editor, [1])).toBe(keys.get('2'))
+  })
+
+  it('keeps keys of the moved node and both parents when moving across parents', async () => {
+    const editor = createReactEditor([
+      {
+        type: 'block-quote',
+        children: [
+          { type: 'paragraph', children: [{ text: 'a' }] },
+          { type: 'paragraph', children: [{ text: 'b' }] },
+        ],
+      },
+      {
+        type: 'block-quote',
+        children: [
+          { type: 'paragraph', children: [{ text: 'c' }] },
+        ],
+      },
+    ])
+    const keys = getKeys(editor)
+
+    Transforms.moveNodes(editor, { at: [0, 0], to: [1, 1] })
+    await Promise.resolve()
+
+    expect(Node.string(editor)).toBe('bca')
+    expect(findKeyAt(editor, [0])).toBe(keys.get('0'))
+    expect(findKeyAt(editor, [1])).toBe(keys.get('1'))
+    expect(findKeyAt(editor, [0, 0])).toBe(keys.get('0,1'))
+    expect(findKeyAt(editor, [1, 0])).toBe(keys.get('1,0'))
+    expect(findKeyAt(editor, [1, 1])).toBe(keys.get('0,0'))
+    expect(findKeyAt(editor, [1, 1, 0])).toBe(keys.get('0,0,0'))
+  })
+
+  it('keeps keys for moves inside withoutNormalizing', async () => {
+    const editor = createReactEditor([
+      {
+        type: 'block-quote',
+        children: [
+          { type: 'paragraph', children: [{ text: 'a' }] },
+          { type: 'paragraph', children: [{ text: 'b' }] },
+        ],
+      },
+      { type: 'paragraph', children: [{ text: 'c' }] },
+    ])
+    const keys = getKeys(editor)
+
+    // 同一个 draft 里面的多个 op，key 在 withoutNormalizing 结束之后才绑定到最终的节点上
+    Editor.withoutNormalizing(editor, () => {
+      Transforms.moveNodes(editor, { at: [0, 0], to: [1] })
+      Transforms.moveNodes(editor, { at: [2], to: [0, 0] })
+      editor.apply({ type: 'insert_text', path: [1, 0], offset: 1, text: '!' })
+    })
+    await Promise.resolve()
+
+    expect(Node.string(editor)).toBe('cba!')
+    expect(findKeyAt(editor, [0])).toBe(keys.get('0'))
+    expect(findKeyAt(editor, [0, 0])).toBe(keys.get('1'))
+    expect(findKeyAt(editor, [0, 1])).toBe(keys.get('0,1'))
+    expect(findKeyAt(editor, [1])).toBe(keys.get('0,0'))
+    expect(findKeyAt(editor, [1, 0])).toBe(keys.get('0,0,0'))
+  })
+})
@@ -1,13 +1,16 @@
-import React, { useCallback, useMemo, useRef } from 'react';
+import React, { useCallback, useMemo, useRef, useState } from 'react';
 import { useChildren } from '../hooks/use-children';
-import { Element, Text, Node, Transforms, Range, NodeEntry, Editor, Path, BaseRange } from 'slate';
+import { Element, Text, Node, Transforms, Range, NodeEntry, Editor, Path, Point, BaseRange } from 'slate';
 import { useIsomorphicLayoutEffect } from '../hooks/use-isomorphic-layout-effect';
 import { ReactEditor } from '../plugin/react-editor';
-import { EDITOR_TO_ELEMENT, EDITOR_TO_WINDOW, ELEMENT_TO_NODE, IS_COMPOSING, IS_FOCUSED } from '../utils/weak-map';
-import { DOMNode, DOMRange, getDefaultView, isDOMNode } from '../utils/dom';
+import { EDITOR_TO_ELEMENT, EDITOR_TO_WINDOW, ELEMENT_TO_NODE, IS_COMPOSING, IS_FOCUSED, IS_READ_ONLY } from '../utils/weak-map';
+import { ReadOnlyContext } from '../hooks/use-read-only';
+import { DOMNode, DOMRange, getDefaultView, isDOMElement, isDOMNode, scrollRectIntoView } from '../utils/dom';
 import { debounce, throttle } from 'lodash';
 import HOT_KEYS from '../utils/hotkeys';
-import { useSlate } from '../hooks/use-slate';
+import { useSlateStatic } from '../hooks/use-slate-static';
+import { useSlateSelector } from '../hooks/use-slate-selector';
+import { useVirtualized, VirtualizeOptions } from '../hooks/use-virtualized';
 import { IS_CHROME, IS_SAFARI } from '../utils/environment';
 
 export interface RenderElementProps {
@@ -27,16 +30,35 @@ export interface RenderLeafProps {
   }
 }
 
+export interface RenderPlaceholderProps {
+  children: any;
+  attributes: {
+    'data-slate-placeholder': true,
+    contentEditable: false,
+    style: React.CSSProperties,
+  }
+}
+
 export type EditableProps = {
   renderElement?: (props: RenderElementProps) => JSX.Element;
   renderLeaf?: (props: RenderLeafProps) => JSX.Element;
   decorate?: (entry: NodeEntry) => Range[];
   onKeyDown?: (event: React.KeyboardEvent<HTMLDivElement>) => void;
   onDOMBeforeInput?: (event: InputEvent) => void
+  // 只读模式不能编辑，可以选中和复制
+  readOnly?: boolean;
+  // 文档为空的时候显示
+  placeholder?: string;
+  renderPlaceholder?: (props: RenderPlaceholderProps) => JSX.Element;
+  // 只渲染可视区域附近的顶层 block，适合非常大的文档
+  virtualize?: boolean | VirtualizeOptions;
+  // model 的选区同步到 DOM 之后把选区滚动到可视区域
+  scrollSelectionIntoView?: (editor: ReactEditor, domRange: DOMRange) => void;
 };
 
 export type DecorationType = BaseRange & {
-
+  // 渲染在 leaf 上的 placeholder 文本
+  placeholder?: string;
 }
 
 const Children = (props: Parameters<typeof useChildren>[0]) => {
@@ -44,22 +66,67 @@ const Children = (props: Parameters<typeof useChildren>[0]) => {
   return <React.Fragment>{children}</React.Fragment>
 };
 
+const defaultDecorate = () => [];
+
+const selectRenderState = (editor: Editor) => [editor.children, editor.selection, editor.marks] as const;
+
+const isRenderStateEqual = (
+  a: ReturnType<typeof selectRenderState>,
+  b: ReturnType<typeof selectRenderState>,
+) => a.every((value, i) => value === b[i]);
+
+/**
+ * 默认的滚动方式：折叠的选区在部分浏览器中没有大小，用所在的元素的位置代替
+ */
+export const defaultScrollSelectionIntoView = (editor: ReactEditor, domRange: DOMRange) => {
+  const { startContainer } = domRange;
+  const el = isDOMElement(startContainer) ? startContainer : startContainer.parentElement;
+  if (!el) {
+    return;
+  }
+
+  scrollRectIntoView(el, () => {
+    const rect = domRange.getBoundingClientRect();
+    return rect.width === 0 && rect.height === 0 ? el.getBoundingClientRect() : rect;
+  });
+}
+
 export const Editable = (props: EditableProps) => {
   const {
+    decorate = defaultDecorate,
     renderElement,
     renderLeaf,
     onKeyDown,
-    onDOMBeforeInput: propsOnDOMBeforeInput
+    onDOMBeforeInput: propsOnDOMBeforeInput,
+    readOnly = false,
+    placeholder,
+    renderPlaceholder,
+    virtualize,
+    scrollSelectionIntoView = defaultScrollSelectionIntoView,
   } = props;
 
   const Component = 'div';
+  const editor = useSlateStatic();
   /**
-   * 这里必须用 useSlate 而不是 useSlateStatic，因为当发生 op 的时候， version 发生变化，editable 需要 re-render
-   * 而 useSlateStatic 没有 version，所以不会 re-render
+   * 不订阅 SlateContext，只有渲染用到的 children、selection 和 marks 变化的时候才 re-render，
+   * 其他组件用 useSlateSelector 订阅自己用到的值
    */
-  const editor = useSlate();
+  useSlateSelector(selectRenderState, isRenderStateEqual);
   const ref = useRef<HTMLDivElement>(null);
-  const decorations: DecorationType[] = [];
+  IS_READ_ONLY.set(editor, readOnly);
+
+  // IS_COMPOSING 变化不会 re-render，placeholder 需要根据它显示或者隐藏
+  const [isComposing, setIsComposing] = useState(false);
+
+  // 是否在编辑器内部拖拽，drop 的时候需要删除原来的内容
+  const isDraggingInternally = useRef(false);
+  const virtual = useVirtualized(editor, ref, virtualize);
+  // 最近一次鼠标或者触摸是否在编辑器里面，这时候的选区变化是用户自己选的，不需要滚动
+  const isPointerSelecting = useRef(false);
+  // 已经滚动过的选区，re-render 的时候选区没有变化不再滚动
+  const scrolledSelection = useRef(editor.selection);
+  // 根节点的 decoration，子节点的 decoration 在 useChildren 中按照节点的范围拆分
+  const decorations: DecorationType[] = [...decorate([editor, []])];
 
   const onDOMSelectionChange = useCallback(throttle(() => {
     // 中文环境不处理 selection, 等 compositionEnd 之后再出来    
@@ -154,7 +221,12 @@ export const Editable = (props: EditableProps) => {
       return newDomRange
     }
     
-    setDomSelection();
+    const newDomRange = setDomSelection();
+
+    if (newDomRange && selection !== scrolledSelection.current && !isPointerSelecting.current) {
+      scrollSelectionIntoView(editor, newDomRange);
+    }
+    scrolledSelection.current = selection;
   });
 
   useIsomorphicLayoutEffect(() => {
@@ -165,21 +237,31 @@ export const Editable = (props: EditableProps) => {
       scheduleOnDOMSelectionChange
     )
 
+    // 点击编辑器外面（比如工具栏）的时候不算，之后的选区变化需要滚动
+    const onPointerDown = (event: Event) => {
+      isPointerSelecting.current = hasEditableTarget(editor, event.target);
+    }
+    window.document.addEventListener('mousedown', onPointerDown, true);
+    window.document.addEventListener('touchstart', onPointerDown, true);
+
     return () => {
       window.document.removeEventListener(
         'selectionchange',
         scheduleOnDOMSelectionChange
       )
+      window.document.removeEventListener('mousedown', onPointerDown, true);
+      window.document.removeEventListener('touchstart', onPointerDown, true);
     }
   }, [scheduleOnDOMSelectionChange]);
 
   const onBeforeInput = useCallback((event: InputEvent) => {
     propsOnDOMBeforeInput?.(event);
+    isPointerSelecting.current = false;
     /**
      * 如果不是对 slateElement/slateText/slateEditor 的 onBeforeInput要忽略，因为不会涉及到 value 的改变
      * 比如 业务自己写了一个 input，但是这个 input 不是 slateElement，这个时候不做任何处理
      */
-    if (!hasEditableTarget(editor, event.target)) {
+    if (readOnly || !hasEditableTarget(editor, event.target)) {
       return;
     }
 
@@ -206,7 +288,7 @@ export const Editable = (props: EditableProps) => {
       case 'insertText':
       case 'insertFromPaste': { // command+v
         if (dataTransfer?.constructor.name === 'DataTransfer') {
-          ReactEditor.insertFragmentData(editor, dataTransfer);
+          ReactEditor.insertData(editor, dataTransfer);
         } else if (typeof data === 'string') {
           Editor.insertText(editor, data);
         }
@@ -216,6 +298,50 @@ export const Editable = (props: EditableProps) => {
         Editor.deleteBackward(editor);
         break;
       }
+      case 'deleteContent':
+      case 'deleteContentForward': { // delete 键往后删除
+        Editor.deleteForward(editor);
+        break;
+      }
+      case 'deleteWordBackward': { // option/ctrl + backspace
+        Editor.deleteBackward(editor, { unit: 'word' });
+        break;
+      }
+      case 'deleteWordForward': { // option/ctrl + delete
+        Editor.deleteForward(editor, { unit: 'word' });
+        break;
+      }
+      case 'deleteSoftLineBackward': // command + backspace
+      case 'deleteSoftLineForward':
+      case 'deleteEntireSoftLine': { // 删除光标所在的整行
+        // 可视的行的边界只有浏览器知道，在 target range 中给出，拿不到的时候按照 block 删除
+        const range = getTargetRange(editor, event);
+        if (range && !Range.isCollapsed(range)) {
+          Transforms.delete(editor, { at: range });
+          break;
+        }
+        if (inputType !== 'deleteSoftLineForward') {
+          Editor.deleteBackward(editor, { unit: 'line' });
+        }
+        if (inputType !== 'deleteSoftLineBackward') {
+          Editor.deleteForward(editor, { unit: 'line' });
+        }
+        break;
+      }
+      case 'deleteHardLineBackward': {
+        Editor.deleteBackward(editor, { unit: 'block' });
+        break;
+      }
+      case 'deleteHardLineForward': {
+        Editor.deleteForward(editor, { unit: 'block' });
+        break;
+      }
+      case 'deleteByCut':
+      case 'deleteByDrag':
+      case 'deleteByComposition': {
+        Editor.deleteFragment(editor);
+        break;
+      }
       case 'insertParagraph': { // 换行
         Editor.insertBreak(editor);
         break;
@@ -223,7 +349,7 @@ export const Editable = (props: EditableProps) => {
       default:
         break;
     }
-  }, [editor, propsOnDOMBeforeInput]);
+  }, [editor, propsOnDOMBeforeInput, readOnly]);
 
   useIsomorphicLayoutEffect(() => {    
     ref.current?.addEventListener('beforeinput', onBeforeInput);
@@ -232,6 +358,25 @@ export const Editable = (props: EditableProps) => {
   
   // decoration 表示哪一个 range 需要标记为 mark
   const { selection, marks } = editor;
+
+  // 文档只有一个空的 block 并且不在输入中文的时候，在第一个 leaf 上显示 placeholder
+  const [first] = editor.children;
+  if (
+    placeholder &&
+    editor.children.length === 1 &&
+    Element.isElement(first) &&
+    !Editor.isVoid(editor, first) &&
+    Editor.isEmpty(editor, first) &&
+    !isComposing
+  ) {
+    const start = Editor.start(editor, []);
+    decorations.push({
+      placeholder,
+      anchor: start,
+      focus: start,
+    })
+  }
+
   if (selection && marks && Range.isCollapsed(selection)) {
     const { anchor } = selection;
     decorations.push({
@@ -244,7 +389,7 @@ export const Editable = (props: EditableProps) => {
   return (
     <Component
       ref={ref}
-      contentEditable={true}
+      contentEditable={!readOnly}
       suppressContentEditableWarning // 给标签设置可编辑的属性contentEditable，页面会弹出警告，这个属性去除
       data-slate-editor
       data-slate-node="value" // 在 toSlateNode 如果遇到没有这个属性的节点，会往上找到这个属性的节点
@@ -256,13 +401,21 @@ export const Editable = (props: EditableProps) => {
       }}
       onCompositionUpdate={useCallback((event: React.CompositionEvent<HTMLDivElement>) => {
         IS_COMPOSING.set(editor, true);
+        setIsComposing(true);
       }, [editor])}
       onCompositionEnd={useCallback((event: React.CompositionEvent<HTMLDivElement>) => {
         IS_COMPOSING.set(editor, false);
-        Editor.insertText(editor, event.data);
-      }, [editor])}
+        setIsComposing(false);
+        if (!readOnly) {
+          Editor.insertText(editor, event.data);
+        }
+      }, [editor, readOnly])}
       onKeyDown={useCallback((event: React.KeyboardEvent<HTMLDivElement>) => {
+        isPointerSelecting.current = false;
         onKeyDown?.(event);
+        if (readOnly) {
+          return;
+        }
         const { nativeEvent } = event;
         const { selection } = editor;
 
@@ -282,6 +435,25 @@ export const Editable = (props: EditableProps) => {
          * 比如 【节点A，空节点，节点B】，在节点B往前，在 selectionChange 拿到的是节点A。
          * 具体可以拿 mention 例子，聚焦在 mention 之后，随后鼠标往前移动。 从 selectionChange 拿到的不是 menton 的空节点，而是 mention 的前一个节点
          */
+        // 按单词移动，collapse 之后再移动
+        if (HOT_KEYS.isMoveWordBackward(nativeEvent)) {
+          event.preventDefault();
+          if (selection && !Range.isCollapsed(selection)) {
+            Transforms.collapse(editor, { edge: 'start' });
+          }
+          Transforms.move(editor, { unit: 'word', reverse: true });
+          return;
+        }
+
+        if (HOT_KEYS.isMoveWordForward(nativeEvent)) {
+          event.preventDefault();
+          if (selection && !Range.isCollapsed(selection)) {
+            Transforms.collapse(editor, { edge: 'end' });
+          }
+          Transforms.move(editor, { unit: 'word' });
+          return;
+        }
+
         // 鼠标往前。
         if (HOT_KEYS.isMoveBackward(nativeEvent)) {
           event.preventDefault();
@@ -329,11 +501,124 @@ export const Editable = (props: EditableProps) => {
             }
           }
         }
-      }, [onKeyDown])}
+      }, [onKeyDown, readOnly])}
       onCopy={useCallback((event: React.ClipboardEvent<HTMLDivElement>) => { // command+c
         event.preventDefault();
         ReactEditor.setFragmentData(editor, event.clipboardData);
       }, [])}
+      onCut={useCallback((event: React.ClipboardEvent<HTMLDivElement>) => { // command+x
+        if (readOnly || !hasEditableTarget(editor, event.target)) {
+          return;
+        }
+        event.preventDefault();
+        ReactEditor.setFragmentData(editor, event.clipboardData);
+
+        const { selection } = editor;
+        if (!selection) {
+          return;
+        }
+        if (!Range.isCollapsed(selection)) {
+          Editor.deleteFragment(editor);
+        } else {
+          // 选中 void 节点（比如图片）的时候剪切整个节点
+          const voidEntry = Editor.void(editor, { at: selection });
+          if (voidEntry) {
+            Transforms.removeNodes(editor, { at: voidEntry[1] });
+          }
+        }
+      }, [readOnly])}
+      onDragStart={useCallback((event: React.DragEvent<HTMLDivElement>) => {
+        // 只读的时候交给浏览器，拖出去的内容只能复制，不会删除原来的内容
+        if (readOnly || !hasEditableTarget(editor, event.target)) {
+          return;
+        }
+
+        // 拖拽 void 节点的时候选中整个节点，拖拽的内容就是这个节点
+        const node = ReactEditor.toSlateNode(editor, event.target);
+        const path = ReactEditor.findPath(editor, node);
+        const voidPath = Element.isElement(node) && Editor.isVoid(editor, node)
+          ? path
+          : Editor.void(editor, { at: path })?.[1];
+        if (voidPath) {
+          Transforms.select(editor, Editor.range(editor, voidPath));
+        }
+
+        isDraggingInternally.current = true;
+        ReactEditor.setFragmentData(editor, event.dataTransfer);
+      }, [readOnly])}
+      onDragOver={useCallback((event: React.DragEvent<HTMLDivElement>) => {
+        if (readOnly || !hasEditableTarget(editor, event.target)) {
+          return;
+        }
+
+        // 浏览器默认不允许放在 contenteditable=false 的 void 节点上
+        const node = ReactEditor.toSlateNode(editor, event.target);
+        if (Element.isElement(node) && Editor.isVoid(editor, node)) {
+          event.preventDefault();
+        }
+      }, [readOnly])}
+      onDrop={useCallback((event: React.DragEvent<HTMLDivElement>) => {
+        if (readOnly || !hasEditableTarget(editor, event.target)) {
+          return;
+        }
+        // 由 model 层处理，不能让浏览器修改 DOM
+        event.preventDefault();
+
+        const draggedRange = editor.selection;
+        const range = ReactEditor.findEventRange(editor, event);
+        const data = event.dataTransfer;
+
+        if (isDraggingInternally.current && draggedRange) {
+          isDraggingInternally.current = false;
+
+          // 放在被拖拽的内容里面，不需要移动
+          const [start, end] = Range.edges(draggedRange);
+          if (Point.compare(range.anchor, start) > 0 && Point.compare(range.anchor, end) < 0) {
+            return;
+          }
+
+          const voidEntry = Editor.void(editor, { at: draggedRange });
+          const block = Editor.above(editor, {
+            at: range,
+            match: n => Element.isElement(n) && Editor.isBlock(editor, n),
+          });
+
+          /**
+           * 拖拽 block 的 void 节点（比如图片）移动到放下位置所在的 block 前面，放在 block 末尾的时候移动到后面。
+           * gap 是移动之前的位置，moveNodes 的 to 是移动之后的位置，需要去掉被移动的节点的影响
+           */
+          if (voidEntry && block && !editor.isInline(voidEntry[0])) {
+            const [voidNode, voidPath] = voidEntry;
+            const isAfter = Editor.isEnd(editor, range.anchor, block[1]) && !Editor.isStart(editor, range.anchor, block[1]);
+            const gap = isAfter ? Path.next(block[1]) : block[1];
+            if (Path.equals(gap, voidPath) || Path.equals(gap, Path.next(voidPath))) {
+              return;
+            }
+
+            const to = Path.transform(gap, { type: 'remove_node', path: voidPath, node: voidNode });
+            if (to) {
+              Transforms.moveNodes(editor, { at: voidPath, to });
+            }
+            return;
+          }
+
+          // 其他内容先删除，再插入到放下的位置，放在一个事务里面，撤销的时候是一步
+          Editor.transaction(editor, () => {
+            const rangeRef = Editor.rangeRef(editor, range);
+            Transforms.delete(editor, { at: draggedRange });
+            Transforms.select(editor, rangeRef.unref()!);
+            ReactEditor.insertData(editor, data);
+          });
+          return;
+        }
+
+        // 从编辑器外面拖进来的内容插入到放下的位置
+        Transforms.select(editor, range);
+        ReactEditor.insertData(editor, data);
+      }, [readOnly])}
+      onDragEnd={useCallback(() => {
+        isDraggingInternally.current = false;
+      }, [])}
       onFocus={useCallback((event: React.FocusEvent<HTMLDivElement>) => {
         event.preventDefault();
         IS_FOCUSED.set(editor, true);
@@ -366,17 +651,33 @@ export const Editable = (props: EditableProps) => {
         }
       }, [])}
     >
-      <Children
-        node={editor} 
-        renderElement={renderElement}
-        renderLeaf={renderLeaf}
-        decorations={decorations}
-        selection={selection}
-      />
+      <ReadOnlyContext.Provider value={readOnly}>
+        <Children
+          node={editor} 
+          decorate={decorate}
+          renderElement={renderElement}
+          renderLeaf={renderLeaf}
+          renderPlaceholder={renderPlaceholder}
+          decorations={decorations}
+          selection={selection}
+          virtual={virtual}
+        />
+      </ReadOnlyContext.Provider>
     </Component>
   )
 }
 
+/**
+ * beforeinput 中浏览器将要修改的范围，转换成 slate 的 range
+ */
+const getTargetRange = (editor: ReactEditor, event: InputEvent) => {
+  const [targetRange] = typeof event.getTargetRanges === 'function' ? event.getTargetRanges() : [];
+  if (!targetRange) {
+    return null;
+  }
+  return ReactEditor.toSlateRange(editor, targetRange, { exactMatch: false, suppressThrow: true });
+}
+
 export const hasEditableTarget = (
   editor: ReactEditor,
   target: EventTarget | null
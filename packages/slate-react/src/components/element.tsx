@@ -1,12 +1,15 @@
 import React, { memo, useCallback, } from "react";
-import { Editor, Element as SlateElement, Range, Node as SlateNode } from 'slate'
+import { Editor, Element as SlateElement, Range, Node as SlateNode, NodeEntry } from 'slate'
 import { useChildren } from "../hooks/use-children";
 import { ReactEditor } from "../plugin/react-editor";
 import { EDITOR_TO_KEY_TO_ELEMENT, ELEMENT_TO_NODE, NODE_TO_INDEX, NODE_TO_PARENT } from "../utils/weak-map";
-import { DecorationType, RenderElementProps, RenderLeafProps } from "./editable";
+import { DecorationType, RenderElementProps, RenderLeafProps, RenderPlaceholderProps } from "./editable";
 import TextComponent from '../components/text';
 import { useSlateStatic } from "../hooks/use-slate-static";
 
+// void 节点的文本不需要 decoration，用同一个空数组，TextComponent 的 memo 不会失效
+const EMPTY_DECORATIONS: DecorationType[] = [];
+
 export const DefaultElement = (props: RenderElementProps) => {
   const { attributes, children, element } = props;
   const editor = useSlateStatic();
@@ -20,16 +23,21 @@ export const DefaultElement = (props: RenderElementProps) => {
 
 const Element = (props: {
   element: SlateElement,
+  decorate: (entry: NodeEntry) => Range[],
   renderElement?: (props: RenderElementProps) => JSX.Element,
   renderLeaf?: (props: RenderLeafProps) => JSX.Element,
+  renderPlaceholder?: (props: RenderPlaceholderProps) => JSX.Element,
   decorations: DecorationType[],
+  // 选区落在这个节点范围内的部分，没有交集的时候是 null
   selection: Range | null
 }) => {
   const editor = useSlateStatic();
   const {
     element,
+    decorate,
     renderElement = (p: RenderElementProps) => <DefaultElement {...p} />,
     renderLeaf,
+    renderPlaceholder,
     decorations,
     selection,
   } = props;
@@ -59,7 +67,7 @@ const Element = (props: {
     attributes['data-slate-inline'] = true
   }
   
-  let children: React.ReactNode = useChildren({ node: element, renderElement, renderLeaf, decorations, selection });
+  let children: React.ReactNode = useChildren({ node: element, decorate, renderElement, renderLeaf, renderPlaceholder, decorations, selection });
   
   if (Editor.isVoid(editor, element)) {
     attributes['data-slate-void'] = true;
@@ -80,7 +88,7 @@ const Element = (props: {
         }}
       >
         <TextComponent
-          decorations={[]}
+          decorations={EMPTY_DECORATIONS}
           parent={element}
           text={text}
         />
@@ -94,12 +102,22 @@ const Element = (props: {
   return renderElement({ attributes, element, children });
 };
 
+/**
+ * decorations 在 useChildren 中已经保证了内容不变的时候引用不变。
+ * 选区只有落在节点范围内的部分变化的时候才 re-render，跟选区无关的节点不受影响
+ */
 const MemoizedElement = memo(Element, (prev, next) => {
   const res = (
     prev.element === next.element &&
+    prev.decorate === next.decorate &&
     prev.renderElement === next.renderElement &&
     prev.renderLeaf === next.renderLeaf &&
-    prev.decorations === next.decorations
+    prev.renderPlaceholder === next.renderPlaceholder &&
+    prev.decorations === next.decorations &&
+    (
+      prev.selection === next.selection ||
+      (!!prev.selection && !!next.selection && Range.equals(prev.selection, next.selection))
+    )
   );
   return res;
 });
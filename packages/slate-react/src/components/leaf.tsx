@@ -1,7 +1,7 @@
 import React from 'react'
 import { Element, Text } from 'slate'
 import String from './string'
-import { RenderLeafProps } from './editable'
+import { RenderLeafProps, RenderPlaceholderProps } from './editable'
 
 /**
  * Individual leaves in a text node with unique formatting.
@@ -9,6 +9,7 @@ import { RenderLeafProps } from './editable'
 
 const Leaf = (props: {
   renderLeaf?: (props: RenderLeafProps) => JSX.Element
+  renderPlaceholder?: (props: RenderPlaceholderProps) => JSX.Element,
   text: Text,
   leaf: Text,
   parent: Element
@@ -18,12 +19,44 @@ const Leaf = (props: {
     parent,
     leaf,
     renderLeaf = (props: RenderLeafProps) => <DefaultLeaf {...props} />,
+    renderPlaceholder = (props: RenderPlaceholderProps) => <DefaultPlaceholder {...props} />,
   } = props;
 
   let children = (
     <String text={text} leaf={leaf} parent={parent} />
   );
 
+  /**
+   * placeholder 渲染在第一个 leaf 里面，绝对定位但是不设置 top/left，这样会留在原来的位置，光标跟 placeholder 对齐。
+   * contentEditable=false 和 userSelect 让它不能被选中，toSlatePoint 的时候也会去掉它的文本
+   */
+  if (leaf.placeholder) {
+    const placeholderProps: RenderPlaceholderProps = {
+      children: leaf.placeholder,
+      attributes: {
+        'data-slate-placeholder': true,
+        contentEditable: false,
+        style: {
+          position: 'absolute',
+          pointerEvents: 'none',
+          width: '100%',
+          maxWidth: '100%',
+          display: 'block',
+          opacity: 0.333,
+          userSelect: 'none',
+          textDecoration: 'none',
+        },
+      },
+    };
+
+    children = (
+      <React.Fragment>
+        {renderPlaceholder(placeholderProps)}
+        {children}
+      </React.Fragment>
+    );
+  }
+
   const attributes: {
     'data-slate-leaf': true
   } = {
@@ -36,7 +69,10 @@ const Leaf = (props: {
 const MemoizedLeaf = React.memo(Leaf, (prev, next) => {
   const res = (
     next.text === prev.text &&
-    prev.renderLeaf === next.renderLeaf
+    // decoration 的 mark 在 leaf 上，leaf 的属性变了也要 re-render
+    Text.equals(next.leaf, prev.leaf) &&
+    prev.renderLeaf === next.renderLeaf &&
+    prev.renderPlaceholder === next.renderPlaceholder
   );
   return res;
 });
@@ -46,4 +82,9 @@ export const DefaultLeaf = (props: RenderLeafProps) => {
   return <span {...attributes}>{children}</span>
 }
 
+export const DefaultPlaceholder = (props: RenderPlaceholderProps) => {
+  const { attributes, children } = props
+  return <span {...attributes}>{children}</span>
+}
+
 export default MemoizedLeaf
@@ -1,8 +1,9 @@
 import React, { useCallback, useEffect, useState }  from "react"
-import { Descendant } from "slate"
+import { Descendant, Editor, Selection } from "slate"
 import { FocusedContext } from "../hooks/use-focused"
 import { useIsomorphicLayoutEffect } from "../hooks/use-isomorphic-layout-effect"
 import { SlateContext, SlateContextValue } from "../hooks/use-slate"
+import { SlateSelectorContext, useSelectorContext } from "../hooks/use-slate-selector"
 import { ReactEditor } from "../plugin/react-editor"
 import { EDITOR_TO_ON_CHANGE } from "../utils/weak-map"
 import { EditorContext } from '../hooks/use-slate-static';
@@ -12,14 +13,20 @@ export const Slate = (props: {
   value: Descendant[]
   children: React.ReactNode
   onChange?: (value: Descendant[]) => void
+  // 只在 children 变化的时候触发
+  onValueChange?: (value: Descendant[]) => void
+  // 只在 selection 变化的时候触发
+  onSelectionChange?: (selection: Selection) => void
 }) => {
-  const { editor, children, onChange, value } = props;
+  const { editor, children, onChange, onValueChange, onSelectionChange, value } = props;
   const [context, setContext] = React.useState<SlateContextValue>(() => {
     editor.children = value;
     return { v: 0, editor };
   })
+  const { selectorContext, onChange: onSelectorChange } = useSelectorContext(editor);
 
   const onContextChange = useCallback(() => {
+    onSelectorChange();
     setContext(prev => ({
       v: prev.v + 1,
       editor,
@@ -34,6 +41,20 @@ export const Slate = (props: {
     }
   }, []);
 
+  useEffect(() => {
+    if (!onValueChange && !onSelectionChange) {
+      return;
+    }
+    return Editor.subscribe(editor, event => {
+      if (event.valueChanged) {
+        onValueChange?.(editor.children);
+      }
+      if (event.selectionChanged) {
+        onSelectionChange?.(event.selectionAfter);
+      }
+    });
+  }, [onValueChange, onSelectionChange]);
+
   const [isFocus, setIsFocused] = useState(ReactEditor.isFocused(editor));
 
   useEffect(() => {
@@ -54,12 +75,14 @@ export const Slate = (props: {
   }, []);
 
   return (
-    <SlateContext.Provider value={context}>
-      <EditorContext.Provider value={context.editor}>
-        <FocusedContext.Provider value={isFocus}>
-          {children}
-        </FocusedContext.Provider>
-      </EditorContext.Provider>
-    </SlateContext.Provider>
+    <SlateSelectorContext.Provider value={selectorContext}>
+      <SlateContext.Provider value={context}>
+        <EditorContext.Provider value={context.editor}>
+          <FocusedContext.Provider value={isFocus}>
+            {children}
+          </FocusedContext.Provider>
+        </EditorContext.Provider>
+      </SlateContext.Provider>
+    </SlateSelectorContext.Provider>
   );
 }
\ No newline at end of file
@@ -4,11 +4,12 @@ import { useIsomorphicLayoutEffect } from "../hooks/use-isomorphic-layout-effect
 import { useSlateStatic } from "../hooks/use-slate-static";
 import { ReactEditor } from "../plugin/react-editor";
 import { EDITOR_TO_KEY_TO_ELEMENT, ELEMENT_TO_NODE } from "../utils/weak-map";
-import { DecorationType, RenderLeafProps } from "./editable";
+import { DecorationType, RenderLeafProps, RenderPlaceholderProps } from "./editable";
 import Leaf from './leaf';
 
 const Text = (props: {
   renderLeaf?: (props: RenderLeafProps) => JSX.Element
+  renderPlaceholder?: (props: RenderPlaceholderProps) => JSX.Element,
   text: SlateText,
   parent: Element,
   decorations: DecorationType[],
@@ -16,7 +17,7 @@ const Text = (props: {
   const editor = useSlateStatic();
   const ref = useRef<HTMLSpanElement>(null);
 
-  const { text, renderLeaf, parent, decorations } = props;
+  const { text, renderLeaf, renderPlaceholder, parent, decorations } = props;
   const children: JSX.Element[] = [];
   const key = ReactEditor.findKey(editor, text);
 
@@ -41,6 +42,7 @@ const Text = (props: {
         leaf={leaf}
         parent={parent}
         renderLeaf={renderLeaf}
+        renderPlaceholder={renderPlaceholder}
         key={`${key.id}-${i}`}
       />
     )
@@ -53,6 +55,15 @@ const Text = (props: {
   );
 };
 
-const MemoizedText = React.memo(Text);
+const MemoizedText = React.memo(Text, (prev, next) => {
+  const res = (
+    prev.text === next.text &&
+    prev.parent === next.parent &&
+    prev.renderLeaf === next.renderLeaf &&
+    prev.renderPlaceholder === next.renderPlaceholder &&
+    prev.decorations === next.decorations
+  );
+  return res;
+});
 
 export default MemoizedText;
\ No newline at end of file
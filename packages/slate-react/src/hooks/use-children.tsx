@@ -1,26 +1,62 @@
 import React from "react";
-import { Ancestor, Descendant, Editor, Element, Range } from "slate";
-import { DecorationType, RenderElementProps, RenderLeafProps } from "../components/editable";
+import { Ancestor, Descendant, Editor, Element, NodeEntry, Path, Range } from "slate";
+import { DecorationType, RenderElementProps, RenderLeafProps, RenderPlaceholderProps } from "../components/editable";
 import ElementComponent from '../components/element';
 import TextComponent from '../components/text';
 import { ReactEditor } from "../plugin/react-editor";
-import { NODE_TO_INDEX, NODE_TO_PARENT } from "../utils/weak-map";
+import { isDecorationsEqual } from "../utils/range-list";
+import { KEY_TO_DECORATIONS, NODE_TO_DECORATIONS, NODE_TO_INDEX, NODE_TO_PARENT } from "../utils/weak-map";
 import { SelectedContext } from "./use-selected";
+import { VirtualChildren } from "./use-virtualized";
 import { useSlateStatic } from "./use-slate-static";
 
+/**
+ * 调用 decorate 拿到 node 自己的 decoration，node、path 和 decorate 都没有变化的时候直接用上一次的结果
+ */
+const getDecorations = (
+  node: Descendant,
+  path: Path,
+  decorate: (entry: NodeEntry) => Range[],
+): Range[] => {
+  const cache = NODE_TO_DECORATIONS.get(node);
+  if (cache && cache.decorate === decorate && Path.equals(cache.path, path)) {
+    return cache.decorations;
+  }
+
+  const decorations = decorate([node, path]);
+  NODE_TO_DECORATIONS.set(node, { decorate, path, decorations });
+  return decorations;
+}
+
+/**
+ * 只用 path 判断 range 是否跟 path 对应的子树有交集，不需要计算子节点的 range。
+ * Path.compare 中祖先和后代算相等，start 不在子树之后并且 end 不在子树之前就有交集
+ */
+const isIntersecting = (range: Range, path: Path) => {
+  const [start, end] = Range.edges(range);
+  return Path.compare(start.path, path) <= 0 && Path.compare(end.path, path) >= 0;
+}
+
 export const useChildren = (props: {
   node: Ancestor
+  decorate: (entry: NodeEntry) => Range[],
   renderElement?: (props: RenderElementProps) => JSX.Element,
   renderLeaf?: (props: RenderLeafProps) => JSX.Element,
+  renderPlaceholder?: (props: RenderPlaceholderProps) => JSX.Element,
   decorations: DecorationType[],
-  selection: Range | null
+  selection: Range | null,
+  // 虚拟滚动的时候只渲染一部分子节点
+  virtual?: VirtualChildren,
 }) => {
   const {
     node,
+    decorate,
     renderElement,
     renderLeaf,
+    renderPlaceholder,
     decorations,
     selection,
+    virtual,
   } = props;
 
   const editor = useSlateStatic();
@@ -32,19 +68,62 @@ export const useChildren = (props: {
     const n = node.children[i] as Descendant;
     const key = ReactEditor.findKey(editor, n);
 
-    const range = Editor.range(editor, p);
-    // 选区存在交集就代表被选中
-    const sel = selection && Range.intersection(range, selection);
+    NODE_TO_INDEX.set(n, i);
+    NODE_TO_PARENT.set(n, node)
+
+    // 连续没有渲染的子节点合并成一个占位元素
+    if (virtual && !virtual.isMounted(i)) {
+      let end = i + 1;
+      while (end < node.children.length && !virtual.isMounted(end)) {
+        NODE_TO_INDEX.set(node.children[end], end);
+        NODE_TO_PARENT.set(node.children[end], node);
+        end++;
+      }
+      children.push(virtual.renderGap(i, end));
+      i = end - 1;
+      continue;
+    }
+
+    // 只有跟子节点有交集的时候才需要计算子节点的 range
+    let range: Range | undefined;
+    const getRange = () => range || (range = Editor.range(editor, p));
+
+    // 选区存在交集就代表被选中，子节点只拿到选区落在自己范围内的部分
+    const sel = selection && isIntersecting(selection, p)
+      ? Range.intersection(getRange(), selection)
+      : null;
+
+    /**
+     * 子节点的 decoration = 子节点自己 decorate 的结果 + 父节点的 decoration 落在子节点范围内的部分
+     * 这样每个节点只拿到跟自己有关的 decoration，decoration 没有变化的节点不需要 re-render
+     */
+    let ds: DecorationType[] = [...getDecorations(n, p, decorate)];
+    for (const dec of decorations) {
+      const d = isIntersecting(dec, p) && Range.intersection(dec, getRange());
+      if (d) {
+        ds.push(d);
+      }
+    }
+
+    // 内容没有变化的时候沿用上一次的数组，ElementComponent 和 TextComponent 的 memo 可以直接比较引用
+    const prevDs = KEY_TO_DECORATIONS.get(key);
+    if (prevDs && isDecorationsEqual(prevDs, ds)) {
+      ds = prevDs;
+    } else {
+      KEY_TO_DECORATIONS.set(key, ds);
+    }
 
     if (Element.isElement(n)) {
       children.push(
         <SelectedContext.Provider value={!!sel} key={key.id}>
           <ElementComponent
-            decorations={decorations}
+            decorate={decorate}
+            decorations={ds}
             element={n}
             renderElement={renderElement}
             renderLeaf={renderLeaf}
-            selection={selection}
+            renderPlaceholder={renderPlaceholder}
+            selection={sel}
             key={key.id}
           />
         </SelectedContext.Provider>
@@ -52,17 +131,15 @@ export const useChildren = (props: {
     } else {
       children.push(
         <TextComponent
-          decorations={decorations}
+          decorations={ds}
           text={n}
           renderLeaf={renderLeaf}
+          renderPlaceholder={renderPlaceholder}
           key={key.id}
           parent={node}
         />
       )
     }
-
-    NODE_TO_INDEX.set(n, i);
-    NODE_TO_PARENT.set(n, node)
   }
   
   return children;
@@ -0,0 +1,100 @@
+import { createContext, useCallback, useContext, useMemo, useReducer, useRef } from 'react'
+import { Editor } from 'slate'
+import { ReactEditor } from '../plugin/react-editor'
+import { useIsomorphicLayoutEffect } from './use-isomorphic-layout-effect'
+
+type Callback = () => void
+
+/**
+ * 不会随着 editor 变化而变化的 context，组件自己订阅 editor 的变化，
+ * 只有 selector 选出来的值变化的时候才 re-render
+ */
+
+export interface SlateSelectorContextValue {
+  getSlate: () => ReactEditor
+  addEventListener: (callback: Callback) => () => void
+}
+
+export const SlateSelectorContext = createContext<SlateSelectorContextValue | null>(null)
+
+const refEquality = (a: any, b: any) => a === b
+
+/**
+ * 从 editor 中选出一部分值，editor 变化之后用 equalityFn 比较，不相等的时候才 re-render
+ */
+
+export function useSlateSelector<T>(
+  selector: (editor: Editor) => T,
+  equalityFn: (a: T, b: T) => boolean = refEquality
+): T {
+  const context = useContext(SlateSelectorContext)
+
+  if (!context) {
+    throw new Error(
+      `The \`useSlateSelector\` hook must be used inside the <Slate> component's context.`
+    )
+  }
+
+  const { getSlate, addEventListener } = context
+  const [, forceRender] = useReducer((s: number) => s + 1, 0)
+
+  // render 的时候总是用最新的 selector 重新计算，订阅回调里面用 ref 拿到最新的 selector 和结果
+  const selectedState = selector(getSlate())
+  const latestSelector = useRef(selector)
+  const latestEqualityFn = useRef(equalityFn)
+  const latestSelectedState = useRef(selectedState)
+
+  useIsomorphicLayoutEffect(() => {
+    latestSelector.current = selector
+    latestEqualityFn.current = equalityFn
+    latestSelectedState.current = selectedState
+  })
+
+  useIsomorphicLayoutEffect(() => {
+    const checkForUpdates = () => {
+      try {
+        const newSelectedState = latestSelector.current(getSlate())
+        if (latestEqualityFn.current(newSelectedState, latestSelectedState.current)) {
+          return
+        }
+        latestSelectedState.current = newSelectedState
+      } catch {
+        // selector 报错的时候交给 render 重新计算，让错误在 render 中抛出
+      }
+      forceRender()
+    }
+
+    const unsubscribe = addEventListener(checkForUpdates)
+    // 订阅之前 editor 可能已经变化了
+    checkForUpdates()
+    return unsubscribe
+  }, [getSlate, addEventListener])
+
+  return selectedState
+}
+
+/**
+ * 给 <Slate> 使用，返回 context 的值以及 editor 变化之后通知订阅者的函数
+ */
+
+export function useSelectorContext(editor: ReactEditor) {
+  const listeners = useRef(new Set<Callback>()).current
+
+  const onChange = useCallback(() => {
+    for (const listener of [...listeners]) {
+      listener()
+    }
+  }, [])
+
+  const selectorContext = useMemo<SlateSelectorContextValue>(() => ({
+    getSlate: () => editor,
+    addEventListener: (callback: Callback) => {
+      listeners.add(callback)
+      return () => {
+        listeners.delete(callback)
+      }
+    },
+  }), [editor])
+
+  return { selectorContext, onChange }
+}
@@ -0,0 +1,321 @@
+import React, { RefObject, useCallback, useEffect, useRef, useState } from 'react';
+import ReactDOM from 'react-dom';
+import { Range } from 'slate';
+import { ReactEditor } from '../plugin/react-editor';
+import { getDefaultView } from '../utils/dom';
+import HOT_KEYS from '../utils/hotkeys';
+import { Key } from '../utils/key';
+import { EDITOR_TO_KEY_TO_ELEMENT, EDITOR_TO_MOUNT_BLOCK } from '../utils/weak-map';
+import { useIsomorphicLayoutEffect } from './use-isomorphic-layout-effect';
+
+/**
+ * 虚拟滚动的配置
+ *   - estimatedBlockHeight: 还没有渲染过的 block 的预估高度
+ *   - overscan: 可视区域上下额外渲染的高度
+ */
+export interface VirtualizeOptions {
+  estimatedBlockHeight?: number;
+  overscan?: number;
+}
+
+/**
+ * 传给 useChildren 的顶层节点渲染范围，没有渲染的连续节点用一个等高的占位元素代替
+ */
+export interface VirtualChildren {
+  isMounted: (index: number) => boolean;
+  renderGap: (start: number, end: number) => JSX.Element;
+}
+
+/**
+ * 编辑器在视口中可见的范围，overflow 会裁剪内容的祖先元素都会裁剪可见范围
+ */
+const getVisibleRect = (el: HTMLElement, window: Window) => {
+  let top = 0;
+  let bottom = window.innerHeight;
+  let parent = el.parentElement;
+
+  while (parent) {
+    const { overflowY } = window.getComputedStyle(parent);
+    if (/auto|scroll|hidden|clip/.test(overflowY)) {
+      const rect = parent.getBoundingClientRect();
+      top = Math.max(top, rect.top);
+      bottom = Math.min(bottom, rect.bottom);
+    }
+    parent = parent.parentElement;
+  }
+
+  return { top, bottom };
+}
+
+const range = (start: number, end: number) => {
+  return Array.from({ length: Math.max(end - start, 0) }, (_, i) => start + i);
+}
+
+/**
+ * 只渲染可视区域附近以及选区所在的顶层 block。
+ * 渲染过的 block 记录实际高度，没有渲染过的用预估高度计算占位元素的高度
+ */
+export const useVirtualized = (
+  editor: ReactEditor,
+  ref: RefObject<HTMLElement>,
+  options?: boolean | VirtualizeOptions,
+): VirtualChildren | undefined => {
+  const enabled = !!options;
+  const { estimatedBlockHeight = 30, overscan = 600 } = typeof options === 'object' ? options : {};
+
+  const heights = useRef(new WeakMap<Key, number>()).current;
+  const [visible, setVisible] = useState<[number, number]>(() => {
+    const viewport = typeof window === 'undefined' ? 800 : window.innerHeight;
+    return [0, Math.ceil((viewport + overscan) / estimatedBlockHeight)];
+  });
+  // 通过 toDOMNode 等 api 临时渲染的 block，滚动之后重新按照可视区域计算
+  const [forced, setForced] = useState<number[]>([]);
+  // 浏览器的页内查找只能找到渲染出来的文本，查找的时候渲染全部 block
+  const [mountAll, setMountAll] = useState(false);
+
+  const getHeight = (index: number) => {
+    const key = ReactEditor.findKey(editor, editor.children[index]);
+    return heights.get(key) ?? estimatedBlockHeight;
+  }
+
+  const updateVisible = useCallback(() => {
+    const el = ref.current;
+    // Editable 的 layout effect 之后才会设置 EDITOR_TO_WINDOW，这里直接用元素所在的 window
+    const window = getDefaultView(el);
+    if (!el || !window) {
+      return;
+    }
+
+    const rect = el.getBoundingClientRect();
+    const viewport = getVisibleRect(el, window);
+    // 转换成相对于编辑器顶部的位置
+    const top = viewport.top - rect.top - overscan;
+    const bottom = viewport.bottom - rect.top + overscan;
+    const { children } = editor;
+
+    let start = 0;
+    let offset = 0;
+    while (start < children.length && offset + getHeight(start) < top) {
+      offset += getHeight(start);
+      start++;
+    }
+
+    let end = start;
+    while (end < children.length && offset < bottom) {
+      offset += getHeight(end);
+      end++;
+    }
+
+    setVisible(prev => prev[0] === start && prev[1] === end ? prev : [start, end]);
+  }, [editor, overscan, estimatedBlockHeight]);
+
+  const selected: number[] = [];
+  if (editor.selection) {
+    const [start, end] = Range.edges(editor.selection);
+    selected.push(start.path[0], end.path[0]);
+  }
+
+  const isMounted = (index: number) => {
+    return (
+      mountAll ||
+      (index >= visible[0] && index < visible[1]) ||
+      selected.includes(index) ||
+      forced.includes(index)
+    );
+  }
+
+  const scrollBlockIntoView = (index: number) => {
+    const key = ReactEditor.findKey(editor, editor.children[index]);
+    EDITOR_TO_KEY_TO_ELEMENT.get(editor)?.get(key)?.scrollIntoView({ block: 'nearest' });
+  }
+
+  /**
+   * render 到 effect 执行完之前调用 flushSync 不会同步渲染，React 还会报警告，
+   * 这时候只更新状态，渲染出来之后再滚动到可视区域
+   */
+  const isRendering = useRef(true);
+  const pendingScroll = useRef<number | null>(null);
+  isRendering.current = true;
+
+  useEffect(() => {
+    isRendering.current = false;
+  });
+
+  // 渲染的 block 对应的 DOM 元素，只测量这些元素，不需要每次渲染都遍历全部 block
+  const mounted = useRef(new Map<Key, HTMLElement>()).current;
+  const elementToKey = useRef(new WeakMap<Element, Key>()).current;
+  const observer = useRef<ResizeObserver | null>(null);
+
+  const measure = (key: Key, el: HTMLElement) => {
+    const height = el.offsetHeight;
+    if (heights.get(key) === height) {
+      return false;
+    }
+    heights.set(key, height);
+    return true;
+  }
+
+  // block 的大小变化之后更新高度，没有 ResizeObserver 的环境只在渲染出来的时候测量一次
+  useIsomorphicLayoutEffect(() => {
+    const window = getDefaultView(ref.current) as (Window & typeof globalThis) | null;
+    if (!enabled || !window || !window.ResizeObserver) {
+      return;
+    }
+
+    observer.current = new window.ResizeObserver(entries => {
+      let changed = false;
+      for (const { target } of entries) {
+        const key = elementToKey.get(target);
+        if (key && mounted.get(key) === target) {
+          changed = measure(key, target as HTMLElement) || changed;
+        }
+      }
+      if (changed) {
+        updateVisible();
+      }
+    });
+
+    return () => {
+      observer.current?.disconnect();
+      observer.current = null;
+      mounted.clear();
+    }
+  }, [enabled, updateVisible]);
+
+  // 渲染的 block 变化之后，测量新渲染出来的 block，不再渲染的 block 取消监听
+  useIsomorphicLayoutEffect(() => {
+    if (!enabled) {
+      return;
+    }
+
+    const KEY_TO_ELEMENT = EDITOR_TO_KEY_TO_ELEMENT.get(editor);
+    const { children } = editor;
+    const indexes = mountAll
+      ? children.map((_, index) => index)
+      : [...range(visible[0], Math.min(visible[1], children.length)), ...selected, ...forced];
+
+    const current = new Map<Key, HTMLElement>();
+    for (const index of indexes) {
+      const child = children[index];
+      const key = child && ReactEditor.findKey(editor, child);
+      const el = key && KEY_TO_ELEMENT?.get(key);
+      if (key && el) {
+        current.set(key, el);
+      }
+    }
+
+    let changed = false;
+    for (const [key, el] of mounted) {
+      if (current.get(key) !== el) {
+        observer.current?.unobserve(el);
+        mounted.delete(key);
+      }
+    }
+    for (const [key, el] of current) {
+      if (!mounted.has(key)) {
+        mounted.set(key, el);
+        elementToKey.set(el, key);
+        observer.current?.observe(el);
+        changed = measure(key, el) || changed;
+      }
+    }
+
+    if (changed) {
+      updateVisible();
+    }
+
+    const index = pendingScroll.current;
+    if (index !== null && forced.includes(index)) {
+      pendingScroll.current = null;
+      scrollBlockIntoView(index);
+    }
+  }, [enabled, updateVisible, visible, forced, mountAll, editor.children, selected[0], selected[1]]);
+
+  useIsomorphicLayoutEffect(() => {
+    if (!enabled) {
+      return;
+    }
+
+    const window = getDefaultView(ref.current);
+    if (!window) {
+      return;
+    }
+
+    let frame = 0;
+    const onScroll = () => {
+      if (frame) {
+        return;
+      }
+      frame = window.requestAnimationFrame(() => {
+        frame = 0;
+        setForced([]);
+        updateVisible();
+      });
+    }
+
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (HOT_KEYS.isFind(event)) {
+        setMountAll(true);
+      } else if (ref.current && ref.current.contains(event.target as globalThis.Node)) {
+        // 回到编辑器里面操作的时候认为查找已经结束了
+        setMountAll(false);
+      }
+    }
+
+    const onMouseDown = () => {
+      setMountAll(false);
+    }
+
+    // 捕获阶段可以拿到所有滚动容器的 scroll 事件
+    window.addEventListener('scroll', onScroll, true);
+    window.addEventListener('resize', onScroll);
+    window.addEventListener('keydown', onKeyDown, true);
+    ref.current?.addEventListener('mousedown', onMouseDown);
+
+    /**
+     * toDOMNode 的时候 block 可能还没有渲染，同步渲染出来并且滚动到可视区域
+     */
+    EDITOR_TO_MOUNT_BLOCK.set(editor, (index: number) => {
+      const mount = () => setForced(prev => prev.includes(index) ? prev : [...prev, index]);
+      if (isRendering.current) {
+        pendingScroll.current = index;
+        mount();
+        return;
+      }
+      ReactDOM.flushSync(mount);
+      scrollBlockIntoView(index);
+    });
+
+    const el = ref.current;
+    return () => {
+      window.cancelAnimationFrame(frame);
+      window.removeEventListener('scroll', onScroll, true);
+      window.removeEventListener('resize', onScroll);
+      window.removeEventListener('keydown', onKeyDown, true);
+      el?.removeEventListener('mousedown', onMouseDown);
+      EDITOR_TO_MOUNT_BLOCK.delete(editor);
+    }
+  }, [enabled, updateVisible]);
+
+  if (!enabled) {
+    return undefined;
+  }
+
+  return {
+    isMounted,
+    renderGap: (start: number, end: number) => {
+      let height = 0;
+      for (let i = start; i < end; i++) {
+        height += getHeight(i);
+      }
+      return (
+        <div
+          key={`gap-${start}`}
+          data-slate-gap
+          contentEditable={false}
+          style={{ height }}
+        />
+      );
+    },
+  };
+}
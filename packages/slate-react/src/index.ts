@@ -4,5 +4,8 @@ export * from './components/editable';
 export * from './components/slate';
 export * from './hooks/use-slate';
 export * from './hooks/use-slate-static';
+export * from './hooks/use-slate-selector';
 export * from './hooks/use-focused';
 export * from './hooks/use-selected';
+export * from './hooks/use-read-only';
+export * from './hooks/use-virtualized';
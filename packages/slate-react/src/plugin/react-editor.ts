@@ -1,11 +1,14 @@
-import { BaseEditor, Editor, Path, Node, Point, Range } from "slate";
-import { DOMNode, DOMRange, DOMSelection, DOMStaticRange, isDOMSelection, DOMPoint, isDOMElement, DOMElement } from "../utils/dom";
+import React from "react";
+import { BaseEditor, Editor, Element, Path, Node, Point, Range, Transforms } from "slate";
+import { DOMNode, DOMRange, DOMSelection, DOMStaticRange, isDOMSelection, DOMPoint, isDOMElement, DOMElement, isDOMNode, hasCaretPositionFromPoint } from "../utils/dom";
 import { Key } from "../utils/key";
-import { EDITOR_TO_ELEMENT, EDITOR_TO_KEY_TO_ELEMENT, EDITOR_TO_WINDOW, ELEMENT_TO_NODE, IS_COMPOSING, IS_FOCUSED, NODE_TO_INDEX, NODE_TO_KEY, NODE_TO_PARENT } from "../utils/weak-map";
+import { EDITOR_TO_ELEMENT, EDITOR_TO_KEY_TO_ELEMENT, EDITOR_TO_MOUNT_BLOCK, EDITOR_TO_WINDOW, ELEMENT_TO_NODE, IS_COMPOSING, IS_FOCUSED, IS_READ_ONLY, NODE_TO_INDEX, NODE_TO_KEY, NODE_TO_PARENT } from "../utils/weak-map";
 
 export interface ReactEditor extends BaseEditor {
   setFragmentData: (data: DataTransfer) => void;
-  insertFragmentData: (data: DataTransfer) => void;
+  insertData: (data: DataTransfer) => void;
+  insertFragmentData: (data: DataTransfer) => boolean;
+  insertTextData: (data: DataTransfer) => boolean;
 }
 
 // eslint-disable-next-line no-redeclare
@@ -14,6 +17,56 @@ export const ReactEditor = {
     return !!IS_FOCUSED.get(editor);
   },
 
+  isReadOnly(editor: ReactEditor): boolean {
+    return !!IS_READ_ONLY.get(editor);
+  },
+
+  /**
+   * 让编辑器获得焦点，model 中有选区的时候恢复到 DOM 上，避免浏览器把光标放到开头
+   */
+  focus(editor: ReactEditor) {
+    const el = ReactEditor.toDOMNode(editor, editor);
+    const root = ReactEditor.findDocumentOrShadowRoot(editor);
+    IS_FOCUSED.set(editor, true);
+
+    if (root.activeElement !== el) {
+      el.focus({ preventScroll: true });
+    }
+
+    const { selection } = editor;
+    const domSelection = root.getSelection();
+    if (selection && domSelection) {
+      domSelection.removeAllRanges();
+      domSelection.addRange(ReactEditor.toDOMRange(editor, selection));
+    }
+  },
+
+  blur(editor: ReactEditor) {
+    const el = ReactEditor.toDOMNode(editor, editor);
+    const root = ReactEditor.findDocumentOrShadowRoot(editor);
+    IS_FOCUSED.set(editor, false);
+
+    if (root.activeElement === el) {
+      el.blur();
+    }
+  },
+
+  /**
+   * 同时清空 model 和 DOM 的选区
+   */
+  deselect(editor: ReactEditor) {
+    const root = ReactEditor.findDocumentOrShadowRoot(editor);
+    const domSelection = root.getSelection();
+
+    if (domSelection && domSelection.rangeCount > 0) {
+      domSelection.removeAllRanges();
+    }
+
+    if (editor.selection) {
+      Transforms.deselect(editor);
+    }
+  },
+
   findKey(editor: ReactEditor, node: Node) {
     let key = NODE_TO_KEY.get(node)
 
@@ -64,10 +117,22 @@ export const ReactEditor = {
    */
   toDOMNode(editor: ReactEditor, node: Node): HTMLElement {
     const KEY_TO_ELEMENT = EDITOR_TO_KEY_TO_ELEMENT.get(editor);
-    const domNode = Editor.isEditor(node) 
+    let domNode = Editor.isEditor(node) 
       ? EDITOR_TO_ELEMENT.get(editor)
       : KEY_TO_ELEMENT?.get(ReactEditor.findKey(editor, node));
-   
+
+    // 虚拟滚动的时候节点所在的 block 可能没有渲染，先渲染出来。没有渲染过的节点不能用 findPath
+    const mountBlock = EDITOR_TO_MOUNT_BLOCK.get(editor);
+    if (!domNode && mountBlock && !Editor.isEditor(node)) {
+      const index = editor.children.findIndex(child => {
+        return Array.from(Node.nodes(child)).some(([n]) => n === node);
+      });
+      if (index !== -1) {
+        mountBlock(index);
+        domNode = KEY_TO_ELEMENT?.get(ReactEditor.findKey(editor, node));
+      }
+    }
+
     if (!domNode) {
       throw new Error(
         `Cannot resolve a DOM node from Slate node: ${JSON.stringify(node)}`
@@ -126,29 +191,35 @@ export const ReactEditor = {
   },
 
   /**
-   * 将 DOMRange 转换为 slateRange
+   * 将 DOMSelection、DOMRange 或者 StaticRange 转换为 slateRange
    */
   toSlateRange(
     editor: ReactEditor,
-    domRange: DOMSelection,
+    domRange: DOMSelection | DOMRange | DOMStaticRange,
     options: {
       exactMatch: boolean
       suppressThrow: boolean  // 压制错误，不处理错误
     }
   ): Range | null {
     const { exactMatch, suppressThrow } = options
-    const el = domRange.anchorNode
     let anchorNode;
     let anchorOffset;
     let focusNode;
     let focusOffset;
     let isCollapsed;
-    if (el) {
+    if (isDOMSelection(domRange)) {
       anchorNode = domRange.anchorNode;
       anchorOffset = domRange.anchorOffset;
       focusNode = domRange.focusNode;
       focusOffset = domRange.focusOffset;
       isCollapsed = domRange.isCollapsed;
+    } else {
+      // beforeinput 的 getTargetRanges 返回的是 StaticRange，没有方向
+      anchorNode = domRange.startContainer;
+      anchorOffset = domRange.startOffset;
+      focusNode = domRange.endContainer;
+      focusOffset = domRange.endOffset;
+      isCollapsed = domRange.collapsed;
     }
 
     if (
@@ -250,10 +321,14 @@ export const ReactEditor = {
           range.setStart(textNode, 0);
           range.setEnd(nearestNode, nearestOffset);
           const contents = range.cloneContents();
+          // placeholder 的文本不是文档的内容
           const removals = [
             ...Array.prototype.slice.call(
               contents.querySelectorAll('[data-slate-zero-width]')
             ),
+            ...Array.prototype.slice.call(
+              contents.querySelectorAll('[data-slate-placeholder]')
+            ),
           ]
           removals.forEach(el => {
             // COMPAT: While composing at the start of a text node, some keyboards put
@@ -274,7 +349,7 @@ export const ReactEditor = {
            * 但是在 collapse 的情况下， 点击 uFEFF 返回的 domSelection 的 offset 是 1。
            * 这里需要做修正变为 0, 将所有空节点删除
            */
-          leafNode.querySelectorAll('[data-slate-zero-width]').forEach(el => {
+          leafNode.querySelectorAll('[data-slate-zero-width], [data-slate-placeholder]').forEach(el => {
             offset -= el.textContent!.length
           })
         }
@@ -312,6 +387,59 @@ export const ReactEditor = {
     return [text, point.offset];
   },
 
+  /**
+   * 鼠标事件（比如 drop）的位置对应的 slateRange。
+   * 落在 void 节点上的时候根据落在节点的前半部分还是后半部分，返回节点前面或者后面的位置
+   */
+  findEventRange(editor: ReactEditor, event: MouseEvent | React.MouseEvent): Range {
+    const nativeEvent = 'nativeEvent' in event ? event.nativeEvent : event;
+    const { clientX: x, clientY: y, target } = nativeEvent;
+    if (x == null || y == null || !isDOMNode(target)) {
+      throw new Error(`Cannot resolve a Slate range from a DOM event: ${nativeEvent.type} at (${x}, ${y})`);
+    }
+
+    const node = ReactEditor.toSlateNode(editor, target);
+    const path = ReactEditor.findPath(editor, node);
+
+    if (Element.isElement(node) && Editor.isVoid(editor, node)) {
+      const rect = ReactEditor.toDOMNode(editor, node).getBoundingClientRect();
+      const isPrev = editor.isInline(node)
+        ? x - rect.left < rect.left + rect.width - x
+        : y - rect.top < rect.top + rect.height - y;
+
+      const edge = Editor.point(editor, path, { edge: isPrev ? 'start' : 'end' });
+      const point = isPrev ? Editor.before(editor, edge) : Editor.after(editor, edge);
+      if (point) {
+        return Editor.range(editor, point);
+      }
+    }
+
+    // 不同浏览器根据坐标拿到 DOMRange 的 api 不一样
+    const { document } = ReactEditor.getWindow(editor);
+    let domRange: DOMRange | null = null;
+    if (document.caretRangeFromPoint) {
+      domRange = document.caretRangeFromPoint(x, y);
+    } else if (hasCaretPositionFromPoint(document)) {
+      const position = document.caretPositionFromPoint(x, y);
+      if (position) {
+        domRange = document.createRange();
+        domRange.setStart(position.offsetNode, position.offset);
+        domRange.setEnd(position.offsetNode, position.offset);
+      }
+    }
+
+    if (!domRange) {
+      throw new Error(`Cannot resolve a Slate range from a DOM event: ${nativeEvent.type} at (${x}, ${y})`);
+    }
+
+    const point = ReactEditor.toSlatePoint(
+      editor,
+      [domRange.startContainer, domRange.startOffset],
+      { exactMatch: false, suppressThrow: false }
+    )!;
+    return Editor.range(editor, point);
+  },
+
   isComposing(editor: ReactEditor): boolean {
     return !!IS_COMPOSING.get(editor);
   },
@@ -330,10 +458,24 @@ export const ReactEditor = {
     editor.setFragmentData(data)
   },
 
-  insertFragmentData(
+  insertData(
     editor: ReactEditor,
     data: DataTransfer
   ) {
-    editor.insertFragmentData(data)
+    editor.insertData(data)
+  },
+
+  insertFragmentData(
+    editor: ReactEditor,
+    data: DataTransfer
+  ): boolean {
+    return editor.insertFragmentData(data)
+  },
+
+  insertTextData(
+    editor: ReactEditor,
+    data: DataTransfer
+  ): boolean {
+    return editor.insertTextData(data)
   }
 }
\ No newline at end of file
@@ -1,16 +1,42 @@
 import ReactDOM from "react-dom";
-import { BaseEditor, Editor, Operation, Path } from "slate";
+import { BaseEditor, Descendant, Editor, Element, Node, Operation, Path } from "slate";
+import { defaultRules, deserialize, HtmlRules, serialize } from "slate-html";
 import { Key } from "../utils/key";
 import { EDITOR_TO_KEY_TO_ELEMENT, EDITOR_TO_ON_CHANGE, NODE_TO_KEY } from "../utils/weak-map";
 import { ReactEditor } from "./react-editor";
 
-export const withReact = <T extends BaseEditor>(editor: T): T & ReactEditor=> {
+/**
+ * withReact 的配置
+ *   - htmlRules: 复制和粘贴 html 的时候 element、mark 和 html 标签的对应关系
+ */
+export interface WithReactOptions {
+  htmlRules?: HtmlRules;
+}
+
+export const withReact = <T extends BaseEditor>(editor: T, options: WithReactOptions = {}): T & ReactEditor=> {
   const e = editor as T & ReactEditor;
   const { apply, onChange } = e
+  const { htmlRules = defaultRules } = options;
 
   EDITOR_TO_KEY_TO_ELEMENT.set(e, new WeakMap());
 
+  /**
+   * 等待绑定到新的 slateNode 上的 key，以及 key 对应节点现在的 path。
+   * 同一批 op 共用 draft，apply 之后还没有最终的节点，等到下一次读取节点（会完成 draft）的时候再绑定
+   */
+  const pendingKeys = new Map<Key, Path>();
+
+  const flushKeys = () => {
+    for (const [key, path] of pendingKeys) {
+      if (Node.has(e, path)) {
+        NODE_TO_KEY.set(Node.get(e, path), key);
+      }
+    }
+    pendingKeys.clear();
+  }
+
   e.onChange = () => {
+    flushKeys();
     ReactDOM.unstable_batchedUpdates(() => {
       const onContextChange = EDITOR_TO_ON_CHANGE.get(e);
       
@@ -24,6 +50,8 @@ export const withReact = <T extends BaseEditor>(editor: T): T & ReactEditor=> {
 
   e.apply = (op: Operation) => {
     const matches: [Path, Key][] = [];
+    // 下面读取节点的时候会完成 draft，先给之前的 op 产生的节点绑定 key
+    flushKeys();
 
     switch (op.type) {
       case 'insert_text': 
@@ -61,8 +89,13 @@ export const withReact = <T extends BaseEditor>(editor: T): T & ReactEditor=> {
         break
       }
 
+      /**
+       * move 之后新旧位置的父节点以及祖先节点都会发生改变，被移动的节点本身没有改变。
+       * newPath 的父节点是移动之前的位置（跨层级移动的时候 generator 也是这么计算的）
+       */
       case 'move_node': {
-        // TODO
+        matches.push(...getMatches(e, op.path));
+        matches.push(...getMatches(e, Path.parent(op.newPath)));
         break
       }
       default:
@@ -71,6 +104,18 @@ export const withReact = <T extends BaseEditor>(editor: T): T & ReactEditor=> {
 
     apply(op);
 
+    // 之前等待绑定的 path 跟着 op 变化，这几种 op 不会改变 path
+    if (op.type !== 'insert_text' && op.type !== 'remove_text' && op.type !== 'set_node' && op.type !== 'set_selection') {
+      for (const [key, path] of pendingKeys) {
+        const newPath = Path.transform(path, op);
+        if (newPath) {
+          pendingKeys.set(key, newPath);
+        } else {
+          pendingKeys.delete(key);
+        }
+      }
+    }
+
     /**
      * NODE_TO_KEY 中存放在 slateNode 和 id 的映射。
      * 但是在 insertText 等操作会先修改 model 层再 re-render，
@@ -78,8 +123,16 @@ export const withReact = <T extends BaseEditor>(editor: T): T & ReactEditor=> {
      * 所以这里在 apply 之前拿到原来的 slateNode， apply 之后需要重新为【新的 SlateNode】 的值绑定为【原来 slateNode】 的 key
      */
     for (const [path, key] of matches) {
-      const [node] = Editor.node(e, path)
-      NODE_TO_KEY.set(node, key)
+      // move 之后节点的位置发生了变化，其他 op 的 matches 都是不受影响的祖先节点
+      const newPath = op.type === 'move_node' ? Path.transform(path, op) : path;
+      if (newPath) {
+        pendingKeys.set(key, newPath);
+      }
+    }
+
+    // 不在 withoutNormalizing 里面的 op 已经完成了 draft，可以直接绑定
+    if (Editor.isNormalizing(e)) {
+      flushKeys();
     }
   }
 
@@ -87,6 +140,29 @@ export const withReact = <T extends BaseEditor>(editor: T): T & ReactEditor=> {
     const fragment = Editor.getFragment(e);    
     const encoded = window.btoa(encodeURIComponent(JSON.stringify(fragment)));
     data.setData('application/x-slate-fragment', encoded);
+    // 粘贴到其他应用的时候使用 html 和纯文本
+    data.setData('text/html', serialize(fragment, htmlRules));
+    data.setData('text/plain', getPlainText(e, fragment));
+  };
+
+  /**
+   * 粘贴的顺序：slate 的 fragment => html => 纯文本
+   */
+  e.insertData = (data: DataTransfer) => {
+    if (e.insertFragmentData(data)) {
+      return;
+    }
+
+    const html = data.getData('text/html');
+    if (html) {
+      const fragment = deserialize(html, htmlRules);
+      if (fragment.length) {
+        Editor.insertFragment(e, fragment);
+        return;
+      }
+    }
+
+    e.insertTextData(data);
   };
 
   e.insertFragmentData = (data: DataTransfer) => {
@@ -94,7 +170,29 @@ export const withReact = <T extends BaseEditor>(editor: T): T & ReactEditor=> {
     if (slateFragment) {
       const slateElemnt = JSON.parse(decodeURIComponent(window.atob(slateFragment)));
       Editor.insertFragment(e, slateElemnt);
+      return true;
     }
+    return false;
+  };
+
+  /**
+   * 纯文本按照换行拆分成多个 block
+   */
+  e.insertTextData = (data: DataTransfer) => {
+    const text = data.getData('text/plain');
+    if (!text) {
+      return false;
+    }
+
+    Editor.withoutNormalizing(e, () => {
+      text.split(/\r\n|\r|\n/).forEach((line, index) => {
+        if (index > 0) {
+          Editor.insertBreak(e);
+        }
+        Editor.insertText(e, line);
+      });
+    });
+    return true;
   };
 
   return e;
@@ -108,3 +206,16 @@ const getMatches = (e: ReactEditor, path: Path) => {
   }  
   return matches;
 }
+
+/**
+ * 每个最底层的 block 一行
+ */
+const getPlainText = (e: ReactEditor, nodes: Descendant[]): string => {
+  return nodes
+    .map(node => {
+      const hasBlocks = Element.isElement(node) &&
+        node.children.some(child => Element.isElement(child) && !e.isInline(child));
+      return hasBlocks ? getPlainText(e, node.children) : Node.string(node);
+    })
+    .join('\n');
+}
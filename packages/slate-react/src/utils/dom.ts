@@ -33,4 +33,70 @@ export const isDOMNode = (value: any): value is DOMNode => {
 
 export const isDOMSelection = (value: any): value is DOMSelection => {
   return value instanceof Selection
-}
\ No newline at end of file
+}
+
+/**
+ * 标准的 caretPositionFromPoint（Firefox 只有这个），TS 的 lib.dom 里面还没有
+ */
+export interface DOMCaretPosition {
+  offsetNode: DOMNode;
+  offset: number;
+}
+
+export const hasCaretPositionFromPoint = (
+  document: Document,
+): document is Document & { caretPositionFromPoint(x: number, y: number): DOMCaretPosition | null } => {
+  return typeof (document as { caretPositionFromPoint?: unknown }).caretPositionFromPoint === 'function';
+}
+/**
+ * [start, end] 滚动到 [viewStart, viewEnd] 里面需要滚动的距离，放不下的时候优先保证 start 可见
+ */
+const getScrollDelta = (start: number, end: number, viewStart: number, viewEnd: number) => {
+  if (start < viewStart) {
+    return start - viewStart;
+  }
+  if (end > viewEnd) {
+    return Math.min(end - viewEnd, start - viewStart);
+  }
+  return 0;
+}
+
+/**
+ * 从里往外依次滚动 el 的滚动容器，最后滚动窗口，让 getRect 返回的区域可见。
+ * 每次滚动之后区域的位置会变化，所以每一层都重新调用 getRect
+ */
+export const scrollRectIntoView = (el: DOMElement, getRect: () => DOMRect) => {
+  const window = getDefaultView(el);
+  if (!window) {
+    return;
+  }
+
+  const { body, documentElement } = window.document;
+  let parent = el.parentElement;
+  while (parent && parent !== body && parent !== documentElement) {
+    const { overflowX, overflowY } = window.getComputedStyle(parent);
+    const scrollableY = /auto|scroll|overlay/.test(overflowY) && parent.scrollHeight > parent.clientHeight;
+    const scrollableX = /auto|scroll|overlay/.test(overflowX) && parent.scrollWidth > parent.clientWidth;
+
+    if (scrollableY || scrollableX) {
+      const rect = getRect();
+      const box = parent.getBoundingClientRect();
+      // clientTop、clientLeft 是边框的宽度
+      const top = box.top + parent.clientTop;
+      const left = box.left + parent.clientLeft;
+      if (scrollableY) {
+        parent.scrollTop += getScrollDelta(rect.top, rect.bottom, top, top + parent.clientHeight);
+      }
+      if (scrollableX) {
+        parent.scrollLeft += getScrollDelta(rect.left, rect.right, left, left + parent.clientWidth);
+      }
+    }
+    parent = parent.parentElement;
+  }
+
+  const rect = getRect();
+  window.scrollBy(
+    getScrollDelta(rect.left, rect.right, 0, window.innerWidth),
+    getScrollDelta(rect.top, rect.bottom, 0, window.innerHeight),
+  );
+}
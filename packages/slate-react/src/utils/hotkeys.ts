@@ -9,15 +9,20 @@ const HOTKEYS = {
   moveBackward: 'left',
   moveForward: 'right',
   deleteBackward: 'shift?+backspace',
+  find: 'mod+f',
 }
 
 const APPLE_HOTKEYS = {
   redo: 'cmd+shift+z',
+  moveWordBackward: 'opt+left',
+  moveWordForward: 'opt+right',
   deleteBackward: ['ctrl+backspace', 'ctrl+h'],
 }
 
 const WINDOWS_HOTKEYS = {
   redo: ['ctrl+y', 'ctrl+shift+z'],
+  moveWordBackward: 'ctrl+left',
+  moveWordForward: 'ctrl+right',
 }
 
 /**
@@ -47,5 +52,8 @@ export default {
   isUndo: create('undo'),
   isMoveBackward: create('moveBackward'), // 往前移动
   isMoveForward: create('moveForward'), // 往后移动
+  isMoveWordBackward: create('moveWordBackward'), // 往前移动一个单词
+  isMoveWordForward: create('moveWordForward'), // 往后移动一个单词
   isDeleteBackward: create('deleteBackward'),
+  isFind: create('find'), // 浏览器的页内查找
 }
@@ -0,0 +1,26 @@
+import { Range } from "slate";
+
+/**
+ * 判断两组 decoration 是否相同：range 相同，并且 range 上的属性（mark）也相同。
+ * 每次 render 的时候 decoration 都是新生成的数组，相同的时候沿用上一次的数组，保证引用稳定
+ */
+export const isDecorationsEqual = (list: Range[], another: Range[]): boolean => {
+  if (list.length !== another.length) {
+    return false;
+  }
+
+  for (let i = 0; i < list.length; i++) {
+    const { anchor, focus, ...rest } = list[i];
+    const { anchor: otherAnchor, focus: otherFocus, ...otherRest } = another[i];
+
+    if (
+      !Range.equals(list[i], another[i]) ||
+      Object.keys(rest).length !== Object.keys(otherRest).length ||
+      Object.keys(rest).some(key => rest[key] !== otherRest[key])
+    ) {
+      return false;
+    }
+  }
+
+  return true;
+}
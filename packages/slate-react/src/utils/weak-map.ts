@@ -1,4 +1,5 @@
-import { Ancestor, Editor, Node } from "slate";
+import { Ancestor, Editor, Node, NodeEntry, Path, Range } from "slate";
+import { DecorationType } from "../components/editable";
 import { Key } from "./key";
 
 /**
@@ -28,4 +29,23 @@ export const EDITOR_TO_ON_CHANGE = new WeakMap<Editor, () => void>();
 // 中文输入法
 export const IS_COMPOSING: WeakMap<Editor, boolean> = new WeakMap();
 
-export const IS_FOCUSED: WeakMap<Editor, boolean> = new WeakMap();
\ No newline at end of file
+export const IS_FOCUSED: WeakMap<Editor, boolean> = new WeakMap();
+
+export const IS_READ_ONLY: WeakMap<Editor, boolean> = new WeakMap();
+
+// 虚拟滚动的时候同步渲染第 index 个顶层 block
+export const EDITOR_TO_MOUNT_BLOCK: WeakMap<Editor, (index: number) => void> = new WeakMap();
+
+/**
+ * decorate 的缓存，node、path 和 decorate 都没有变化的时候不需要重新调用 decorate
+ */
+export const NODE_TO_DECORATIONS: WeakMap<Node, {
+  decorate: (entry: NodeEntry) => Range[],
+  path: Path,
+  decorations: Range[],
+}> = new WeakMap();
+
+/**
+ * 上一次 render 时传给子节点的 decoration，内容没有变化的时候复用同一个数组，memo 直接比较引用
+ */
+export const KEY_TO_DECORATIONS: WeakMap<Key, DecorationType[]> = new WeakMap();
@@ -0,0 +1,29 @@
+import { createEditor, Descendant, Editor } from '@src/index'
+
+const children: Descendant[] = [
+  {
+    children: [{ text: 'a👨‍👩‍👧b😀' }]
+  },
+];
+
+const output = [
+  { path: [0, 0], offset: 0 },
+  { path: [0, 0], offset: 1 },
+  { path: [0, 0], offset: 9 },
+  { path: [0, 0], offset: 10 },
+  { path: [0, 0], offset: 12 },
+]
+
+describe('editor.positions', () => {
+  let editor: Editor;
+
+  beforeAll(() => {
+    editor = createEditor();
+    editor.children = children;
+  });
+
+  it('character-emoji', () => {
+    const res = Array.from(Editor.positions(editor, { at: [], unit: 'character' }));
+    expect(res).toEqual(output);
+  })
+})
@@ -0,0 +1,37 @@
+import { createEditor, Descendant, Editor } from '@src/index'
+
+const children: Descendant[] = [
+  {
+    children: [
+      { text: 'ab' },
+      { text: 'cd', bold: true },
+    ]
+  },
+  {
+    children: [{ text: 'e' }]
+  },
+];
+
+const output = [
+  { path: [1, 0], offset: 1 },
+  { path: [1, 0], offset: 0 },
+  { path: [0, 1], offset: 2 },
+  { path: [0, 1], offset: 1 },
+  { path: [0, 1], offset: 0 },
+  { path: [0, 0], offset: 1 },
+  { path: [0, 0], offset: 0 },
+]
+
+describe('editor.positions', () => {
+  let editor: Editor;
+
+  beforeAll(() => {
+    editor = createEditor();
+    editor.children = children;
+  });
+
+  it('character-texts', () => {
+    const res = Array.from(Editor.positions(editor, { at: [], unit: 'character', reverse: true }));
+    expect(res).toEqual(output);
+  })
+})
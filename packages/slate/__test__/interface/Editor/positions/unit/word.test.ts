@@ -0,0 +1,28 @@
+import { createEditor, Descendant, Editor } from '@src/index'
+
+const children: Descendant[] = [
+  {
+    children: [{ text: 'one two, three' }]
+  },
+];
+
+const output = [
+  { path: [0, 0], offset: 0 },
+  { path: [0, 0], offset: 3 },
+  { path: [0, 0], offset: 7 },
+  { path: [0, 0], offset: 14 },
+]
+
+describe('editor.positions', () => {
+  let editor: Editor;
+
+  beforeAll(() => {
+    editor = createEditor();
+    editor.children = children;
+  });
+
+  it('word', () => {
+    const res = Array.from(Editor.positions(editor, { at: [], unit: 'word' }));
+    expect(res).toEqual(output);
+  })
+})
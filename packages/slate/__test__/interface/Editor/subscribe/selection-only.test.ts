@@ -0,0 +1,29 @@
+import { createEditor, Descendant, Editor, EditorChangeEvent, Transforms } from '@src/index'
+
+const children: Descendant[] = [
+  { type: 'paragraph', children: [{ text: 'one' }] },
+];
+
+describe('Editor.subscribe', () => {
+  let editor: Editor;
+  let events: EditorChangeEvent[];
+
+  beforeEach(() => {
+    editor = createEditor();
+    editor.children = children;
+    events = [];
+    Editor.subscribe(editor, event => events.push(event));
+  });
+
+  it('selection-only', async () => {
+    Transforms.select(editor, { path: [0, 0], offset: 1 });
+    await Promise.resolve();
+    Transforms.select(editor, { path: [0, 0], offset: 2 });
+    await Promise.resolve();
+
+    expect(events.length).toBe(2);
+    expect(events[1].valueChanged).toBe(false);
+    expect(events[1].selectionChanged).toBe(true);
+    expect(events[1].selectionBefore).toEqual(events[0].selectionAfter);
+  })
+})
@@ -0,0 +1,30 @@
+import { createEditor, Descendant, Editor, EditorChangeEvent, Transforms } from '@src/index'
+
+const children: Descendant[] = [
+  { type: 'paragraph', children: [{ text: 'one' }] },
+];
+
+describe('Editor.subscribe', () => {
+  let editor: Editor;
+  let events: EditorChangeEvent[];
+
+  beforeEach(() => {
+    editor = createEditor();
+    editor.children = children;
+    events = [];
+    Editor.subscribe(editor, event => events.push(event));
+  });
+
+  it('unsubscribe', async () => {
+    const received: EditorChangeEvent[] = [];
+    const unsubscribe = Editor.subscribe(editor, event => received.push(event));
+    unsubscribe();
+
+    Transforms.insertNodes(editor, { type: 'paragraph', children: [{ text: 'two' }] }, { at: [1] });
+    await Promise.resolve();
+
+    expect(received.length).toBe(0);
+    expect(events[0].valueChanged).toBe(true);
+    expect(events[0].selectionChanged).toBe(false);
+  })
+})
@@ -0,0 +1,36 @@
+import { createEditor, Descendant, Editor, EditorChangeEvent, Transforms } from '@src/index'
+
+const children: Descendant[] = [
+  { type: 'paragraph', children: [{ text: 'one' }] },
+];
+
+describe('Editor.subscribe', () => {
+  let editor: Editor;
+  let events: EditorChangeEvent[];
+
+  beforeEach(() => {
+    editor = createEditor();
+    editor.children = children;
+    events = [];
+    Editor.subscribe(editor, event => events.push(event));
+  });
+
+  it('value-and-selection', async () => {
+    Transforms.select(editor, { path: [0, 0], offset: 3 });
+    Editor.insertText(editor, 'two');
+    await Promise.resolve();
+
+    // 同一个微任务里的 op 合并为一次通知
+    expect(events.length).toBe(1);
+    const [event] = events;
+    expect(event.operations.map(op => op.type)).toEqual(['set_selection', 'insert_text']);
+    expect(event.valueChanged).toBe(true);
+    expect(event.selectionChanged).toBe(true);
+    expect(event.selectionBefore).toBeNull();
+    expect(event.selectionAfter).toEqual({
+      anchor: { path: [0, 0], offset: 6 },
+      focus: { path: [0, 0], offset: 6 },
+    });
+    expect(editor.operations).toEqual([]);
+  })
+})
@@ -0,0 +1,38 @@
+import { createEditor, Descendant, Editor, Transforms } from '@src/index'
+
+const children: Descendant[] = [
+  { type: 'paragraph', children: [{ text: 'one' }] },
+];
+
+const output: Descendant[] = [
+  { type: 'paragraph', children: [{ text: 'one' }] },
+  { type: 'paragraph', children: [{ text: 'two' }] },
+];
+
+describe('Editor.transaction', () => {
+  let editor: Editor;
+
+  beforeAll(() => {
+    editor = createEditor();
+    editor.children = children;
+  });
+
+  it('nested', () => {
+    Editor.transaction(editor, () => {
+      Transforms.insertNodes(editor, { type: 'paragraph', children: [{ text: 'two' }] }, { at: [1] });
+
+      // 内层的事务只回滚自己的 op，外层捕获异常之后继续
+      try {
+        Editor.transaction(editor, () => {
+          Transforms.removeNodes(editor, { at: [0] });
+          throw new Error('fail');
+        });
+      } catch {}
+
+      expect(Editor.getTransaction(editor)!.operations.length).toBe(1);
+    });
+
+    expect(editor.children).toEqual(output);
+    expect(Editor.getTransaction(editor)).toBeUndefined();
+  })
+})
@@ -0,0 +1,37 @@
+import { createEditor, Descendant, Editor, Transforms } from '@src/index'
+
+const children: Descendant[] = [
+  { type: 'paragraph', children: [{ text: 'one' }] },
+  { type: 'paragraph', children: [{ text: 'two' }] },
+];
+
+const selection = { anchor: { path: [0, 0], offset: 1 }, focus: { path: [0, 0], offset: 1 } };
+
+describe('Editor.transaction', () => {
+  let editor: Editor;
+
+  beforeAll(() => {
+    editor = createEditor();
+    editor.children = children;
+    editor.selection = selection;
+  });
+
+  it('rollback', () => {
+    const error = new Error('fail');
+    expect(() => {
+      Editor.transaction(editor, () => {
+        Editor.pathRef(editor, [1]);
+        Transforms.insertText(editor, 'x');
+        Transforms.splitNodes(editor, { always: true });
+        Transforms.removeNodes(editor, { at: [2] });
+        Transforms.select(editor, [0]);
+        throw error;
+      });
+    }).toThrow(error);
+
+    expect(editor.children).toEqual(children);
+    expect(editor.selection).toEqual(selection);
+    expect(Editor.pathRefs(editor).size).toBe(0);
+    expect(Editor.getTransaction(editor)).toBeUndefined();
+  })
+})
@@ -0,0 +1,53 @@
+import { createEditor, Descendant, Editor, Schema, withSchema } from '@src/index'
+
+const schema: Schema = {
+  elements: {
+    'bulleted-list': {
+      children: ['list-item'],
+      minChildren: 1,
+    },
+    'list-item': {
+      children: ['text'],
+      parents: ['bulleted-list'],
+      marks: ['bold'],
+    },
+    image: {
+      properties: { url: '' },
+    },
+  },
+};
+
+const children: Descendant[] = [
+  {
+    type: 'bulleted-list',
+    children: [
+      { type: 'list-item', children: [{ text: 'one', italic: true }] },
+      { type: 'paragraph', children: [{ text: 'two' }] },
+    ],
+  },
+  { type: 'list-item', children: [{ text: 'three' }] },
+  { type: 'image', children: [{ text: '' }] },
+];
+
+const output = [
+  { code: 'child_type_invalid', path: [0, 1], type: 'bulleted-list' },
+  { code: 'mark_invalid', path: [0, 0, 0], type: 'list-item', key: 'italic' },
+  { code: 'parent_type_invalid', path: [1], type: 'list-item' },
+  { code: 'property_required', path: [2], type: 'image', key: 'url' },
+];
+
+describe('editor.validate', () => {
+  let editor: Editor;
+
+  beforeAll(() => {
+    editor = withSchema(createEditor(), schema);
+    editor.children = children;
+  });
+
+  it('violations', () => {
+    const res = Editor.validate(editor).map(({ node, ...rest }) => rest);
+    expect(res).toEqual(output);
+    // 只检查不修改
+    expect(editor.children).toBe(children);
+  })
+})
@@ -0,0 +1,62 @@
+import { isDraft } from 'immer'
+import { createEditor, Descendant, Editor, Node, Operation, Transforms } from '@src/index'
+
+const children: Descendant[] = [
+  { type: 'paragraph', children: [{ text: 'one' }] },
+  { type: 'paragraph', children: [{ text: 'two' }] },
+];
+
+const output: Descendant[] = [
+  { type: 'heading', children: [{ text: 'two!' }] },
+];
+
+describe('Editor.withoutNormalizing', () => {
+  let editor: Editor;
+  const operations: Operation[] = [];
+
+  beforeAll(() => {
+    editor = createEditor();
+    editor.children = children;
+    const { apply } = editor;
+    editor.apply = op => {
+      operations.push(op);
+      apply(op);
+    };
+  });
+
+  it('plain-reads', () => {
+    const reads: unknown[] = [];
+
+    Editor.withoutNormalizing(editor, () => {
+      Transforms.setNodes(editor, { type: 'heading' }, { at: [1] });
+      Transforms.removeNodes(editor, { at: [0] });
+
+      // 同一批 op 中间读到的节点是普通对象，之后的 op 不会修改它们
+      const [node] = Editor.node(editor, [0]);
+      const range = Editor.range(editor, [0]);
+      reads.push(node, Node.get(editor, [0, 0]), Node.fragment(editor, range));
+      Transforms.select(editor, range);
+      reads.push(Editor.getFragment(editor));
+
+      Transforms.select(editor, Editor.end(editor, [0]));
+      Transforms.insertText(editor, '!');
+    });
+
+    expect(editor.children).toEqual(output);
+    expect(reads.some(isDraft)).toBe(false);
+    // 批次结束之后仍然可以访问，并且是读取时的值
+    expect(reads).toEqual([
+      { type: 'heading', children: [{ text: 'two' }] },
+      { text: 'two' },
+      [{ type: 'heading', children: [{ text: 'two' }] }],
+      [{ type: 'heading', children: [{ text: 'two' }] }],
+    ]);
+    // op 里面的节点在批次结束之后仍然可以访问
+    expect(operations[1]).toEqual({ type: 'remove_node', path: [0], node: children[0] });
+    // 批次开始之前的文档没有被修改
+    expect(children).toEqual([
+      { type: 'paragraph', children: [{ text: 'one' }] },
+      { type: 'paragraph', children: [{ text: 'two' }] },
+    ]);
+  })
+})
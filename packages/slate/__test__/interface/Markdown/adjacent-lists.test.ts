@@ -0,0 +1,25 @@
+import { Descendant, Markdown } from '@src/index'
+
+// 相邻的同类列表中间用空注释隔开，否则反序列化的时候会合并成一个列表
+const children: Descendant[] = [
+  { type: 'bulleted-list', children: [{ type: 'list-item', children: [{ text: 'one' }] }] },
+  { type: 'bulleted-list', children: [{ type: 'list-item', children: [{ text: 'two' }] }] },
+  { type: 'numbered-list', children: [{ type: 'list-item', children: [{ text: 'three' }] }] },
+  { type: 'numbered-list', children: [{ type: 'list-item', children: [{ text: 'four' }] }] },
+]
+
+const markdown = [
+  '- one',
+  '<!-- -->',
+  '- two',
+  '1. three',
+  '<!-- -->',
+  '1. four',
+].join('\n\n')
+
+describe('Markdown', () => {
+  it('adjacent-lists', () => {
+    expect(Markdown.serialize(children)).toBe(markdown)
+    expect(Markdown.deserialize(markdown)).toEqual(children)
+  })
+})
@@ -0,0 +1,20 @@
+import { Descendant, Markdown } from '@src/index'
+
+const children: Descendant[] = [
+  { type: 'code-block', language: 'ts', children: [{ text: 'const a = 1\n\n```' }] },
+]
+
+const output = [
+  '````ts',
+  'const a = 1',
+  '',
+  '```',
+  '````',
+].join('\n')
+
+describe('Markdown', () => {
+  it('code-block', () => {
+    expect(Markdown.serialize(children)).toBe(output)
+    expect(Markdown.deserialize(output)).toEqual(children)
+  })
+})
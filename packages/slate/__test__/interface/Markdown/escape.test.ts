@@ -0,0 +1,24 @@
+import { Descendant, Markdown } from '@src/index'
+
+const children: Descendant[] = [
+  { type: 'paragraph', children: [{ text: '# not a *heading* <b>' }] },
+  { type: 'paragraph', children: [{ text: '- not a list' }] },
+  { type: 'paragraph', children: [{ text: '1. not a list' }] },
+  { type: 'paragraph', children: [{ text: 'line\nbreak' }] },
+  { type: 'paragraph', children: [{ text: '' }] },
+]
+
+const output = [
+  '\\# not a \\*heading\\* \\<b\\>',
+  '\\- not a list',
+  '1\\. not a list',
+  'line<br>break',
+  '<br>',
+].join('\n\n')
+
+describe('Markdown', () => {
+  it('escape', () => {
+    expect(Markdown.serialize(children)).toBe(output)
+    expect(Markdown.deserialize(output)).toEqual(children)
+  })
+})
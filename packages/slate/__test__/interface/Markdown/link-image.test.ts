@@ -0,0 +1,25 @@
+import { Descendant, Markdown } from '@src/index'
+
+const children: Descendant[] = [
+  {
+    type: 'paragraph',
+    children: [
+      { text: 'see ' },
+      { type: 'link', url: 'https://example.com/a(1)', children: [{ text: 'the docs', italic: true }] },
+      { text: '!' },
+    ],
+  },
+  { type: 'image', url: 'https://example.com/cat.png', alt: 'a cat', children: [{ text: '' }] },
+]
+
+const output = [
+  'see [_the docs_](<https://example.com/a(1)>)!',
+  '![a cat](https://example.com/cat.png)',
+].join('\n\n')
+
+describe('Markdown', () => {
+  it('link-image', () => {
+    expect(Markdown.serialize(children)).toBe(output)
+    expect(Markdown.deserialize(output)).toEqual(children)
+  })
+})
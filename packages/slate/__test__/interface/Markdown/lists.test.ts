@@ -0,0 +1,32 @@
+import { Descendant, Markdown } from '@src/index'
+
+const children: Descendant[] = [
+  {
+    type: 'bulleted-list',
+    children: [
+      { type: 'list-item', children: [{ text: 'one' }] },
+      {
+        type: 'numbered-list',
+        children: [
+          { type: 'list-item', children: [{ text: 'a' }] },
+          { type: 'list-item', children: [{ text: 'b', bold: true }] },
+        ],
+      },
+      { type: 'list-item', children: [{ text: 'two' }] },
+    ],
+  },
+]
+
+const output = [
+  '- one',
+  '  1. a',
+  '  2. **b**',
+  '- two',
+].join('\n')
+
+describe('Markdown', () => {
+  it('lists', () => {
+    expect(Markdown.serialize(children)).toBe(output)
+    expect(Markdown.deserialize(output)).toEqual(children)
+  })
+})
@@ -0,0 +1,24 @@
+import { Descendant, Markdown } from '@src/index'
+
+const children: Descendant[] = [
+  {
+    type: 'paragraph',
+    children: [
+      { text: 'un' },
+      { text: 'believ', italic: true },
+      { text: 'able ' },
+      { text: 'all', bold: true, italic: true, underline: true },
+      { text: ' ' },
+      { text: '`a', code: true },
+    ],
+  },
+]
+
+const output = 'un*believ*able <u>**_all_**</u> `` `a ``'
+
+describe('Markdown', () => {
+  it('marks-intraword', () => {
+    expect(Markdown.serialize(children)).toBe(output)
+    expect(Markdown.deserialize(output)).toEqual(children)
+  })
+})
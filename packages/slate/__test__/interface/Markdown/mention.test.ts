@@ -0,0 +1,40 @@
+import { createEditor, Descendant, Editor, Element, Markdown } from '@src/index'
+
+// site/pages/mentions.tsx 里面的 mention，是否 inline 由 editor.isInline 决定，节点上没有 isInline 属性
+const children: Descendant[] = [
+  {
+    type: 'paragraph',
+    children: [
+      { text: 'Try mentioning characters, like ' },
+      {
+        type: 'mention',
+        character: 'R2-D2',
+        children: [{ text: '', bold: true }],
+      },
+      { text: ' or ' },
+      {
+        type: 'mention',
+        character: 'Mace Windu',
+        children: [{ text: '' }],
+      },
+      { text: '!' },
+    ],
+  },
+]
+
+const markdown = 'Try mentioning characters, like '
+  + '<!-- slate-inline {"type":"mention","character":"R2-D2"} --><!-- slate-inline {"bold":true} --><!-- /slate-inline --><!-- /slate-inline -->'
+  + ' or '
+  + '<!-- slate-inline {"type":"mention","character":"Mace Windu"} --><!-- /slate-inline -->'
+  + '!'
+
+describe('Markdown', () => {
+  it('mention', () => {
+    const editor: Editor = createEditor()
+    const { isInline } = editor
+    editor.isInline = (element: Element) => element.type === 'mention' || isInline(element)
+
+    expect(Markdown.serialize(children, { isInline: editor.isInline })).toBe(markdown)
+    expect(Markdown.deserialize(markdown)).toEqual(children)
+  })
+})
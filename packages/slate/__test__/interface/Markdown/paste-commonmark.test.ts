@@ -0,0 +1,38 @@
+import { Descendant, Markdown } from '@src/index'
+
+const input = [
+  'Soft',
+  'wrapped __bold__ and snake_case_name',
+  '* a',
+  '',
+  '* b',
+  '> quoted',
+  '> lines',
+  '<div>html</div>',
+].join('\n')
+
+const output: Descendant[] = [
+  {
+    type: 'paragraph',
+    children: [
+      { text: 'Soft wrapped ' },
+      { text: 'bold', bold: true },
+      { text: ' and snake_case_name' },
+    ],
+  },
+  {
+    type: 'bulleted-list',
+    children: [
+      { type: 'list-item', children: [{ text: 'a' }] },
+      { type: 'list-item', children: [{ text: 'b' }] },
+    ],
+  },
+  { type: 'block-quote', children: [{ text: 'quoted lines' }] },
+  { type: 'paragraph', children: [{ text: '<div>html</div>' }] },
+]
+
+describe('Markdown', () => {
+  it('paste-commonmark', () => {
+    expect(Markdown.deserialize(input)).toEqual(output)
+  })
+})
@@ -0,0 +1,33 @@
+import { Descendant, Markdown } from '@src/index'
+
+const children: Descendant[] = [
+  {
+    type: 'paragraph',
+    children: [
+      { text: 'This is ' },
+      { text: 'rich', bold: true },
+      { text: ' text, ' },
+      { text: 'much', italic: true },
+      { text: ' better than a ' },
+      { text: '<textarea>', code: true },
+      { text: '!' },
+    ],
+  },
+  { type: 'heading-one', children: [{ text: 'Title' }] },
+  { type: 'heading-two', children: [{ text: 'Sub', underline: true }] },
+  { type: 'block-quote', children: [{ text: 'A wise quote.' }] },
+]
+
+const output = [
+  'This is **rich** text, _much_ better than a `<textarea>`!',
+  '# Title',
+  '## <u>Sub</u>',
+  '> A wise quote.',
+].join('\n\n')
+
+describe('Markdown', () => {
+  it('rich-text', () => {
+    expect(Markdown.serialize(children)).toBe(output)
+    expect(Markdown.deserialize(output)).toEqual(children)
+  })
+})
@@ -0,0 +1,46 @@
+import { Descendant, Markdown } from '@src/index'
+
+// 没有 type 的容器只保留子节点，不认识的 inline 和 mark 放在注释里，反序列化的时候还原
+const children: Descendant[] = [
+  {
+    children: [
+      { type: 'paragraph', children: [{ text: 'one' }] },
+      {
+        type: 'paragraph',
+        children: [
+          { text: 'hi ' },
+          { type: 'mention', isInline: true, character: 'bob', children: [{ text: '@bob' }] },
+          { text: ' ok', strikethrough: true },
+          { text: '<-->', bold: true, color: '-->' },
+        ],
+      },
+    ],
+  },
+]
+
+const markdown = [
+  'one',
+  'hi <!-- slate-inline {"type":"mention","isInline":true,"character":"bob"} -->@bob<!-- /slate-inline -->'
+    + '<!-- slate-inline {"strikethrough":true} --> ok<!-- /slate-inline -->'
+    + '<!-- slate-inline {"color":"--\\u003e"} -->**\\<--\\>**<!-- /slate-inline -->',
+].join('\n\n')
+
+const output: Descendant[] = [
+  { type: 'paragraph', children: [{ text: 'one' }] },
+  {
+    type: 'paragraph',
+    children: [
+      { text: 'hi ' },
+      { type: 'mention', isInline: true, character: 'bob', children: [{ text: '@bob' }] },
+      { text: ' ok', strikethrough: true },
+      { text: '<-->', bold: true, color: '-->' },
+    ],
+  },
+]
+
+describe('Markdown', () => {
+  it('unknown-degrade', () => {
+    expect(Markdown.serialize(children)).toBe(markdown)
+    expect(Markdown.deserialize(markdown)).toEqual(output)
+  })
+})
@@ -0,0 +1,18 @@
+import { Descendant, Markdown } from '@src/index'
+
+const children: Descendant[] = [
+  { type: 'check-list-item', checked: true, children: [{ text: 'done' }] },
+  { type: 'heading-two', align: 'center', children: [{ text: 'Centered' }] },
+]
+
+const output = [
+  '<!-- slate {"type":"check-list-item","checked":true} -->\ndone',
+  '<!-- slate {"align":"center"} -->\n## Centered',
+].join('\n\n')
+
+describe('Markdown', () => {
+  it('unknown-element', () => {
+    expect(Markdown.serialize(children)).toBe(output)
+    expect(Markdown.deserialize(output)).toEqual(children)
+  })
+})
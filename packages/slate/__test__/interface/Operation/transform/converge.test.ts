@@ -0,0 +1,38 @@
+import { createEditor, Descendant, Editor, Operation } from '@src/index'
+
+const children: Descendant[] = [
+  {
+    children: [{ text: 'one' }],
+  },
+  {
+    children: [{ text: 'two' }],
+  },
+];
+
+const ops: Operation[] = [
+  { type: 'insert_text', path: [0, 0], offset: 3, text: '!' },
+  { type: 'split_node', path: [1, 0], position: 1 },
+  { type: 'split_node', path: [1], position: 1 },
+]
+
+const against: Operation[] = [
+  { type: 'remove_text', path: [1, 0], offset: 0, text: 'tw' },
+  { type: 'merge_node', path: [1], position: 1 },
+]
+
+const apply = (list: Operation[][]) => {
+  const editor: Editor = createEditor();
+  editor.children = children;
+  for (const op of list.flat()) {
+    editor.apply(op);
+  }
+  return editor.children;
+}
+
+describe('operation.transformAll', () => {
+  it('converge', () => {
+    const a = apply([against, Operation.transformAll(ops, against, 'left')]);
+    const b = apply([ops, Operation.transformAll(against, ops, 'right')]);
+    expect(a).toStrictEqual(b);
+  })
+})
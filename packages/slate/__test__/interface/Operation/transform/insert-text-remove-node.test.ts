@@ -0,0 +1,20 @@
+import { Operation } from '@src/index'
+
+const op: Operation = {
+  type: 'insert_text',
+  path: [1, 0],
+  offset: 1,
+  text: 'a',
+}
+
+describe('operation.transform', () => {
+  it('insert_text in removed node', () => {
+    const against: Operation = { type: 'remove_node', path: [1], node: { children: [{ text: 'two' }] } };
+    expect(Operation.transform(op, against, 'left')).toStrictEqual([]);
+  })
+
+  it('insert_text after removed node', () => {
+    const against: Operation = { type: 'remove_node', path: [0], node: { children: [{ text: 'one' }] } };
+    expect(Operation.transform(op, against, 'left')).toStrictEqual([{ ...op, path: [0, 0] }]);
+  })
+})
@@ -0,0 +1,25 @@
+import { Operation } from '@src/index'
+
+const op: Operation = {
+  type: 'insert_text',
+  path: [0, 0],
+  offset: 1,
+  text: 'a',
+}
+
+const against: Operation = {
+  type: 'insert_text',
+  path: [0, 0],
+  offset: 1,
+  text: 'bc',
+}
+
+describe('operation.transform', () => {
+  it('insert_text same offset left', () => {
+    expect(Operation.transform(op, against, 'left')).toStrictEqual([op]);
+  })
+
+  it('insert_text same offset right', () => {
+    expect(Operation.transform(op, against, 'right')).toStrictEqual([{ ...op, offset: 3 }]);
+  })
+})
@@ -0,0 +1,25 @@
+import { Operation } from '@src/index'
+
+const op: Operation = {
+  type: 'merge_node',
+  path: [1],
+  position: 1,
+}
+
+const against: Operation = {
+  type: 'insert_text',
+  path: [0, 0],
+  offset: 3,
+  text: 'abc',
+}
+
+describe('operation.transform', () => {
+  it('merge_node element unaffected by text', () => {
+    expect(Operation.transform(op, against, 'left')).toStrictEqual([op]);
+  })
+
+  it('merge_node text prev changed', () => {
+    const textOp: Operation = { type: 'merge_node', path: [0, 1], position: 3 };
+    expect(Operation.transform(textOp, against, 'left')).toStrictEqual([{ ...textOp, position: 6 }]);
+  })
+})
@@ -0,0 +1,51 @@
+import { createEditor, Descendant, Editor, Operation } from '@src/index'
+
+const children: Descendant[] = [
+  { children: [{ text: 'a' }, { text: 'b', bold: true }, { text: 'c' }, { text: 'd', bold: true }] },
+  { children: [{ text: 'e' }, { text: 'f', bold: true }, { text: 'g' }] },
+  { children: [{ text: 'h' }] },
+  { children: [{ text: 'i' }] },
+] as Descendant[];
+
+const apply = (ops: Operation[]) => {
+  const editor: Editor = createEditor();
+  editor.children = children;
+  for (const op of ops) {
+    editor.apply(op);
+  }
+  return editor.children;
+}
+
+const converge = (a: Operation, b: Operation) => {
+  const left = apply([b, ...Operation.transform(a, b, 'left')]);
+  const right = apply([a, ...Operation.transform(b, a, 'right')]);
+  expect(left).toStrictEqual(right);
+  return left;
+}
+
+describe('operation.transform move_node conflicts', () => {
+  it('same move on both sides', () => {
+    const move: Operation = { type: 'move_node', path: [0, 1], newPath: [0, 3] };
+    expect(Operation.transform(move, move, 'left')).toStrictEqual([]);
+    expect(Operation.transform(move, move, 'right')).toStrictEqual([]);
+    expect(converge(move, move)).toStrictEqual(apply([move]));
+  })
+
+  it('move into a removed node keeps the moved node', () => {
+    const remove: Operation = { type: 'remove_node', path: [0], node: children[0] };
+    const move: Operation = { type: 'move_node', path: [1, 1], newPath: [0, 0] };
+    expect(converge(remove, move)).toStrictEqual(apply([remove]));
+  })
+
+  it('move into a removed parent keeps the moved node', () => {
+    const move: Operation = { type: 'move_node', path: [0, 0], newPath: [1, 3] };
+    const remove: Operation = { type: 'remove_node', path: [1], node: children[1] };
+    expect(converge(move, remove)).toStrictEqual(apply([remove]));
+  })
+
+  it('merge is dropped when a node is moved between the merged nodes', () => {
+    const merge: Operation = { type: 'merge_node', path: [3], position: 1 };
+    const move: Operation = { type: 'move_node', path: [0], newPath: [2] };
+    expect(converge(merge, move)).toStrictEqual(apply([move]));
+  })
+})
@@ -0,0 +1,28 @@
+import { Operation } from '@src/index'
+
+const op: Operation = {
+  type: 'remove_node',
+  path: [1],
+  node: { children: [{ text: 'two' }] },
+}
+
+const against: Operation = {
+  type: 'insert_text',
+  path: [1, 0],
+  offset: 3,
+  text: 'X',
+}
+
+const output = [
+  {
+    type: 'remove_node',
+    path: [1],
+    node: { children: [{ text: 'twoX' }] },
+  },
+]
+
+describe('operation.transform', () => {
+  it('remove_node inner change', () => {
+    expect(Operation.transform(op, against, 'left')).toStrictEqual(output);
+  })
+})
@@ -0,0 +1,38 @@
+import { Operation } from '@src/index'
+
+// three => 删除 hre
+const op: Operation = {
+  type: 'remove_text',
+  path: [0, 0],
+  offset: 1,
+  text: 'hre',
+}
+
+// three => thrXee
+const against: Operation = {
+  type: 'insert_text',
+  path: [0, 0],
+  offset: 3,
+  text: 'X',
+}
+
+const output = [
+  {
+    type: 'remove_text',
+    path: [0, 0],
+    offset: 1,
+    text: 'hr',
+  },
+  {
+    type: 'remove_text',
+    path: [0, 0],
+    offset: 2,
+    text: 'e',
+  },
+]
+
+describe('operation.transform', () => {
+  it('remove_text insert inside', () => {
+    expect(Operation.transform(op, against, 'left')).toStrictEqual(output);
+  })
+})
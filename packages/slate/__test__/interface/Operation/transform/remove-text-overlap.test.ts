@@ -0,0 +1,32 @@
+import { Operation } from '@src/index'
+
+// one => 删除 ne
+const op: Operation = {
+  type: 'remove_text',
+  path: [0, 0],
+  offset: 1,
+  text: 'ne',
+}
+
+// one => 删除 on
+const against: Operation = {
+  type: 'remove_text',
+  path: [0, 0],
+  offset: 0,
+  text: 'on',
+}
+
+const output = [
+  {
+    type: 'remove_text',
+    path: [0, 0],
+    offset: 0,
+    text: 'e',
+  },
+]
+
+describe('operation.transform', () => {
+  it('remove_text overlap', () => {
+    expect(Operation.transform(op, against, 'left')).toStrictEqual(output);
+  })
+})
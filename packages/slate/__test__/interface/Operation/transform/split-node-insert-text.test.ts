@@ -0,0 +1,24 @@
+import { Operation } from '@src/index'
+
+const op: Operation = {
+  type: 'split_node',
+  path: [0, 0],
+  position: 2,
+}
+
+const against: Operation = {
+  type: 'insert_text',
+  path: [0, 0],
+  offset: 2,
+  text: 'abc',
+}
+
+describe('operation.transform', () => {
+  it('split_node insert_text same offset left', () => {
+    expect(Operation.transform(op, against, 'left')).toStrictEqual([op]);
+  })
+
+  it('split_node insert_text same offset right', () => {
+    expect(Operation.transform(op, against, 'right')).toStrictEqual([{ ...op, position: 5 }]);
+  })
+})
@@ -0,0 +1,35 @@
+import { createEditor, Descendant, Editor } from '@src/index'
+
+const children: Descendant[] = [
+  {
+    children: [{ text: 'one' }],
+  },
+  {
+    children: [{ text: 'two three' }],
+  },
+];
+
+const output: Descendant[] = [
+  {
+    children: [{ text: 'one' }],
+  },
+  {
+    children: [{ text: 'three' }],
+  },
+];
+
+describe('editor.deleteBackward', () => {
+  let editor: Editor;
+
+  beforeAll(() => {
+    editor = createEditor();
+    editor.children = children;
+    editor.selection = { anchor: { path: [1, 0], offset: 4 }, focus: { path: [1, 0], offset: 4 } };
+  });
+
+  it('block-backward', () => {
+    Editor.deleteBackward(editor, { unit: 'block' });
+    expect(editor.children).toEqual(output);
+    expect(editor.selection).toEqual({ anchor: { path: [1, 0], offset: 0 }, focus: { path: [1, 0], offset: 0 } });
+  })
+})
@@ -0,0 +1,32 @@
+import { createEditor, Descendant, Editor } from '@src/index'
+
+const children: Descendant[] = [
+  {
+    children: [{ text: 'one' }],
+  },
+  {
+    children: [{ text: 'two' }],
+  },
+];
+
+const output: Descendant[] = [
+  {
+    children: [{ text: 'onetwo' }],
+  },
+];
+
+describe('editor.deleteForward', () => {
+  let editor: Editor;
+
+  beforeAll(() => {
+    editor = createEditor();
+    editor.children = children;
+    editor.selection = { anchor: { path: [0, 0], offset: 3 }, focus: { path: [0, 0], offset: 3 } };
+  });
+
+  it('character-forward-block-end', () => {
+    Editor.deleteForward(editor);
+    expect(editor.children).toEqual(output);
+    expect(editor.selection).toEqual({ anchor: { path: [0, 0], offset: 3 }, focus: { path: [0, 0], offset: 3 } });
+  })
+})
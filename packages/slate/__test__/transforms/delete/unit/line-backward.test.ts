@@ -0,0 +1,36 @@
+import { createEditor, Descendant, Editor } from '@src/index'
+
+const children: Descendant[] = [
+  {
+    children: [{ text: 'one' }],
+  },
+  {
+    children: [{ text: 'two three four' }],
+  },
+];
+
+// 没有排版信息，line 跟 block 一样删除到 block 的开头
+const output: Descendant[] = [
+  {
+    children: [{ text: 'one' }],
+  },
+  {
+    children: [{ text: 'four' }],
+  },
+];
+
+describe('editor.deleteBackward', () => {
+  let editor: Editor;
+
+  beforeAll(() => {
+    editor = createEditor();
+    editor.children = children;
+    editor.selection = { anchor: { path: [1, 0], offset: 10 }, focus: { path: [1, 0], offset: 10 } };
+  });
+
+  it('line-backward', () => {
+    Editor.deleteBackward(editor, { unit: 'line' });
+    expect(editor.children).toEqual(output);
+    expect(editor.selection).toEqual({ anchor: { path: [1, 0], offset: 0 }, focus: { path: [1, 0], offset: 0 } });
+  })
+})
@@ -0,0 +1,29 @@
+import { createEditor, Descendant, Editor, Transforms } from '@src/index'
+
+const children: Descendant[] = [
+  {
+    children: [{ text: 'one two, three' }],
+  },
+];
+
+const output: Descendant[] = [
+  {
+    children: [{ text: 'one three' }],
+  },
+];
+
+describe('transfroms.delete', () => {
+  let editor: Editor;
+
+  beforeAll(() => {
+    editor = createEditor();
+    editor.children = children;
+    editor.selection = { anchor: { path: [0, 0], offset: 9 }, focus: { path: [0, 0], offset: 9 } };
+  });
+
+  it('word-backward', () => {
+    Transforms.delete(editor, { unit: 'word' });
+    expect(editor.children).toEqual(output);
+    expect(editor.selection).toEqual({ anchor: { path: [0, 0], offset: 4 }, focus: { path: [0, 0], offset: 4 } });
+  })
+})
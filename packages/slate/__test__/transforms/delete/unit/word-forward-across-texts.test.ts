@@ -0,0 +1,32 @@
+import { createEditor, Descendant, Editor, Transforms } from '@src/index'
+
+const children: Descendant[] = [
+  {
+    children: [
+      { text: 'one t' },
+      { text: 'wo', bold: true },
+      { text: ' three' },
+    ],
+  },
+];
+
+const output: Descendant[] = [
+  {
+    children: [{ text: 'one three' }],
+  },
+];
+
+describe('transfroms.delete', () => {
+  let editor: Editor;
+
+  beforeAll(() => {
+    editor = createEditor();
+    editor.children = children;
+    editor.selection = { anchor: { path: [0, 0], offset: 3 }, focus: { path: [0, 0], offset: 3 } };
+  });
+
+  it('word-forward-across-texts', () => {
+    Transforms.delete(editor, { unit: 'word', reverse: true });
+    expect(editor.children).toEqual(output);
+  })
+})
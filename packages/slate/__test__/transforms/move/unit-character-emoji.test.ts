@@ -0,0 +1,24 @@
+import { createEditor, Descendant, Editor, Transforms } from '@src/index'
+
+const children: Descendant[] = [
+  {
+    children: [{ text: 'a😀b' }],
+  },
+];
+
+describe('transfroms.move', () => {
+  let editor: Editor;
+
+  beforeAll(() => {
+    editor = createEditor();
+    editor.children = children;
+    editor.selection = { anchor: { path: [0, 0], offset: 1 }, focus: { path: [0, 0], offset: 1 } };
+  });
+
+  it('unit-character-emoji', () => {
+    Transforms.move(editor);
+    expect(editor.selection).toEqual({ anchor: { path: [0, 0], offset: 3 }, focus: { path: [0, 0], offset: 3 } });
+    Transforms.move(editor, { reverse: true });
+    expect(editor.selection).toEqual({ anchor: { path: [0, 0], offset: 1 }, focus: { path: [0, 0], offset: 1 } });
+  })
+})
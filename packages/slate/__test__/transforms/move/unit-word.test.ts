@@ -0,0 +1,24 @@
+import { createEditor, Descendant, Editor, Transforms } from '@src/index'
+
+const children: Descendant[] = [
+  {
+    children: [{ text: 'one two three' }],
+  },
+];
+
+describe('transfroms.move', () => {
+  let editor: Editor;
+
+  beforeAll(() => {
+    editor = createEditor();
+    editor.children = children;
+    editor.selection = { anchor: { path: [0, 0], offset: 5 }, focus: { path: [0, 0], offset: 5 } };
+  });
+
+  it('unit-word', () => {
+    Transforms.move(editor, { unit: 'word' });
+    expect(editor.selection).toEqual({ anchor: { path: [0, 0], offset: 7 }, focus: { path: [0, 0], offset: 7 } });
+    Transforms.move(editor, { unit: 'word', reverse: true, distance: 2 });
+    expect(editor.selection).toEqual({ anchor: { path: [0, 0], offset: 0 }, focus: { path: [0, 0], offset: 0 } });
+  })
+})
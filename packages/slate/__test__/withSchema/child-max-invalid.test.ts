@@ -0,0 +1,39 @@
+import { createEditor, Descendant, Editor, Transforms, withSchema } from '@src/index'
+
+const children: Descendant[] = [
+  {
+    type: 'table-row',
+    children: [
+      { type: 'table-cell', children: [{ text: 'one' }] },
+      { type: 'table-cell', children: [{ text: 'two' }] },
+    ],
+  },
+];
+
+const output: Descendant[] = [
+  {
+    type: 'table-row',
+    children: [
+      { type: 'table-cell', children: [{ text: 'one' }] },
+      { type: 'table-cell', children: [{ text: 'two' }] },
+    ],
+  },
+];
+
+describe('withSchema', () => {
+  let editor: Editor;
+
+  beforeAll(() => {
+    editor = withSchema(createEditor(), {
+      elements: {
+        'table-row': { maxChildren: 2 },
+      },
+    });
+    editor.children = children;
+  });
+
+  it('child-max-invalid', () => {
+    Transforms.insertNodes(editor, { type: 'table-cell', children: [{ text: 'three' }] }, { at: [0, 2] });
+    expect(editor.children).toEqual(output);
+  })
+})
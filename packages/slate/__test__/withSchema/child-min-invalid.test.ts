@@ -0,0 +1,71 @@
+import { createEditor, Descendant, Editor, Transforms, withSchema } from '@src/index'
+
+const children: Descendant[] = [
+  {
+    type: 'table-row',
+    children: [
+      { type: 'table-cell', children: [{ text: 'one' }] },
+      { type: 'table-cell', children: [{ text: 'two' }] },
+    ],
+  },
+];
+
+// 子节点不够的时候按照规则插入默认的子节点，不删除节点
+const output: Descendant[] = [
+  {
+    type: 'table-row',
+    children: [
+      { type: 'table-cell', align: 'left', children: [{ type: 'paragraph', children: [{ text: 'one' }] }] },
+      { type: 'table-cell', align: 'left', children: [{ type: 'paragraph', children: [{ text: '' }] }] },
+    ],
+  },
+];
+
+describe('withSchema', () => {
+  it('child-min-invalid', () => {
+    const editor = withSchema(createEditor(), {
+      elements: {
+        'table-row': { children: ['table-cell'], minChildren: 2 },
+        'table-cell': { children: ['paragraph', 'text'], properties: { align: 'left' } },
+      },
+    });
+    editor.children = children;
+
+    Transforms.removeNodes(editor, { at: [0, 1] });
+    expect(editor.children).toEqual([
+      {
+        type: 'table-row',
+        children: [
+          { type: 'table-cell', children: [{ text: 'one' }] },
+          { type: 'table-cell', align: 'left', children: [{ text: '' }] },
+        ],
+      },
+    ]);
+  })
+
+  it('child-min-invalid nested defaults', () => {
+    const editor = withSchema(createEditor(), {
+      elements: {
+        'table-row': { children: ['table-cell'], minChildren: 2 },
+        'table-cell': { children: ['paragraph'], properties: { align: 'left' } },
+      },
+    });
+    editor.children = [];
+    Transforms.insertNodes(editor, { type: 'table-row', children: [{ type: 'table-cell', children: [{ text: 'one' }] }] }, { at: [0] });
+
+    expect(editor.children).toEqual(output);
+  })
+
+  it('child-min-invalid editor', () => {
+    const editor = withSchema(createEditor(), {
+      elements: {
+        editor: { children: ['paragraph'], minChildren: 1 },
+      },
+    });
+    editor.children = [{ type: 'paragraph', children: [{ text: 'one' }] }];
+
+    Transforms.removeNodes(editor, { at: [0] });
+    expect(editor.children).toEqual([{ type: 'paragraph', children: [{ text: '' }] }]);
+    expect(Editor.validate(editor)).toEqual([]);
+  })
+})
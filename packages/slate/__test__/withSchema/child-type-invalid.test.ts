@@ -0,0 +1,41 @@
+import { createEditor, Descendant, Editor, Transforms, withSchema } from '@src/index'
+
+const children: Descendant[] = [
+  {
+    type: 'bulleted-list',
+    children: [
+      { type: 'list-item', children: [{ text: 'one' }] },
+    ],
+  },
+];
+
+// 不允许的子节点不删除，改成允许的类型
+const output: Descendant[] = [
+  {
+    type: 'bulleted-list',
+    children: [
+      { type: 'list-item', children: [{ text: 'one' }] },
+      { type: 'list-item', children: [{ text: 'two' }] },
+    ],
+  },
+];
+
+describe('withSchema', () => {
+  let editor: Editor;
+
+  beforeAll(() => {
+    editor = withSchema(createEditor(), {
+      elements: {
+        'bulleted-list': { children: ['list-item'] },
+        'list-item': { children: ['text'] },
+      },
+    });
+    editor.children = children;
+  });
+
+  it('child-type-invalid', () => {
+    Transforms.insertNodes(editor, { type: 'paragraph', children: [{ text: 'two' }] }, { at: [0, 1] });
+    expect(editor.children).toEqual(output);
+    expect(Editor.validate(editor)).toEqual([]);
+  })
+})
@@ -0,0 +1,52 @@
+import { createEditor, Descendant, Editor, Transforms, withSchema } from '@src/index'
+
+// 唯一的子节点不允许的时候不能删除，删除之后 core 插入的空 text 又会被删除，一直循环
+const children: Descendant[] = [
+  {
+    type: 'bulleted-list',
+    children: [
+      { type: 'paragraph', children: [{ text: 'one' }] },
+    ],
+  },
+];
+
+describe('withSchema', () => {
+  it('child-type-only-child', () => {
+    const editor = withSchema(createEditor(), {
+      elements: {
+        'bulleted-list': { children: ['list-item'] },
+      },
+    });
+    editor.children = [];
+    Transforms.insertNodes(editor, children, { at: [0] });
+
+    expect(editor.children).toEqual([
+      {
+        type: 'bulleted-list',
+        children: [
+          { type: 'list-item', children: [{ type: 'paragraph', children: [{ text: 'one' }] }] },
+        ],
+      },
+    ]);
+    expect(Editor.validate(editor)).toEqual([]);
+  })
+
+  it('child-type-only-child text', () => {
+    const editor = withSchema(createEditor(), {
+      elements: {
+        'bulleted-list': { children: ['list-item'] },
+        'list-item': { children: ['text'], properties: { checked: false } },
+      },
+    });
+    editor.children = [];
+    Transforms.insertNodes(editor, [
+      { type: 'bulleted-list', children: [{ type: 'paragraph', children: [{ text: 'one' }] }] },
+      { type: 'bulleted-list', children: [{ text: 'two' }] },
+    ], { at: [0] });
+
+    expect(editor.children).toEqual([
+      { type: 'bulleted-list', children: [{ type: 'list-item', checked: false, children: [{ text: 'one' }] }] },
+      { type: 'bulleted-list', children: [{ type: 'list-item', checked: false, children: [{ text: 'two' }] }] },
+    ]);
+  })
+})
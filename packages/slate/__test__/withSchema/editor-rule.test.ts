@@ -0,0 +1,33 @@
+import { createEditor, Descendant, Editor, Transforms, withSchema } from '@src/index'
+
+const children: Descendant[] = [
+  { type: 'paragraph', children: [{ text: 'one' }] },
+];
+
+const output: Descendant[] = [
+  { type: 'paragraph', children: [{ text: 'one' }] },
+];
+
+describe('withSchema', () => {
+  let editor: Editor;
+
+  beforeAll(() => {
+    editor = withSchema(createEditor(), {
+      elements: {
+        editor: { children: ['paragraph'], maxChildren: 1 },
+      },
+    });
+    editor.children = children;
+  });
+
+  it('editor-rule', () => {
+    Transforms.insertNodes(editor, { type: 'heading', children: [{ text: 'two' }] }, { at: [1] });
+    expect(editor.children).toEqual(output);
+
+    editor.children = [...output, { type: 'heading', children: [{ text: 'two' }] }];
+    expect(Editor.validate(editor).map(violation => [violation.code, violation.path])).toEqual([
+      ['child_type_invalid', [1]],
+      ['child_max_invalid', []],
+    ]);
+  })
+})
@@ -0,0 +1,28 @@
+import { createEditor, Descendant, Editor, withSchema } from '@src/index'
+
+const children: Descendant[] = [
+  { type: 'code-line', children: [{ text: 'one two' }] },
+];
+
+const output: Descendant[] = [
+  { type: 'code-line', children: [{ text: 'one two' }] },
+];
+
+describe('withSchema', () => {
+  let editor: Editor;
+
+  beforeAll(() => {
+    editor = withSchema(createEditor(), {
+      elements: {
+        'code-line': { marks: [] },
+      },
+    });
+    editor.children = children;
+    editor.selection = { anchor: { path: [0, 0], offset: 0 }, focus: { path: [0, 0], offset: 3 } };
+  });
+
+  it('mark-invalid', () => {
+    Editor.addMark(editor, 'bold', true);
+    expect(editor.children).toEqual(output);
+  })
+})
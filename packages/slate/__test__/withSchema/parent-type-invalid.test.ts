@@ -0,0 +1,33 @@
+import { createEditor, Descendant, Editor, Transforms, withSchema } from '@src/index'
+
+const children: Descendant[] = [
+  { type: 'paragraph', children: [{ text: 'one' }] },
+];
+
+const output: Descendant[] = [
+  { type: 'paragraph', children: [{ text: 'one' }] },
+  {
+    type: 'bulleted-list',
+    children: [
+      { type: 'list-item', children: [{ text: 'two' }] },
+    ],
+  },
+];
+
+describe('withSchema', () => {
+  let editor: Editor;
+
+  beforeAll(() => {
+    editor = withSchema(createEditor(), {
+      elements: {
+        'list-item': { parents: ['bulleted-list'] },
+      },
+    });
+    editor.children = children;
+  });
+
+  it('parent-type-invalid', () => {
+    Transforms.insertNodes(editor, { type: 'list-item', children: [{ text: 'two' }] }, { at: [1] });
+    expect(editor.children).toEqual(output);
+  })
+})
@@ -0,0 +1,28 @@
+import { createEditor, Descendant, Editor, Transforms, withSchema } from '@src/index'
+
+const children: Descendant[] = [
+  { type: 'paragraph', children: [{ text: 'one' }] },
+];
+
+const output: Descendant[] = [
+  { type: 'paragraph', children: [{ text: 'one' }] },
+  { type: 'heading', level: 1, children: [{ text: 'two' }] },
+];
+
+describe('withSchema', () => {
+  let editor: Editor;
+
+  beforeAll(() => {
+    editor = withSchema(createEditor(), {
+      elements: {
+        heading: { properties: { level: 1 } },
+      },
+    });
+    editor.children = children;
+  });
+
+  it('property-required', () => {
+    Transforms.insertNodes(editor, { type: 'heading', children: [{ text: 'two' }] }, { at: [1] });
+    expect(editor.children).toEqual(output);
+  })
+})
@@ -0,0 +1,83 @@
+/**
+ * 10k 个 block 的文档上同一批 op 共用一个 draft 的耗时，每个 op 之后读一次节点相当于每个 op 都 finishDraft 一次，用来对比。
+ * 不是 *.test.ts，默认的 jest 不会执行，用 pnpm bench 单独运行
+ */
+import { createEditor, Descendant, Editor, Node, Transforms } from '@src/index';
+
+const BLOCKS = 10000;
+const OPS = 200;
+
+const createValue = (): Descendant[] => {
+  return Array.from({ length: BLOCKS }, (_, i) => ({
+    type: 'paragraph',
+    children: [{ text: `block ${i}` }],
+  }));
+}
+
+const create = () => {
+  const editor = createEditor();
+  editor.children = createValue();
+  return editor;
+}
+
+const measure = (name: string, fn: (editor: Editor) => void) => {
+  const editor = create();
+  const start = performance.now();
+  fn(editor);
+  const time = performance.now() - start;
+  console.log(`${name}: ${time.toFixed(1)}ms`);
+  return editor;
+}
+
+const step = BLOCKS / OPS;
+
+describe(`${BLOCKS} blocks`, () => {
+  it(`setNodes on ${OPS} blocks`, () => {
+    measure('shared draft', editor => {
+      Editor.withoutNormalizing(editor, () => {
+        for (let i = 0; i < BLOCKS; i += step) {
+          Transforms.setNodes(editor, { align: 'center' }, { at: [i] });
+        }
+      });
+    });
+
+    measure('draft per op', editor => {
+      for (let i = 0; i < BLOCKS; i += step) {
+        Transforms.setNodes(editor, { align: 'center' }, { at: [i] });
+        Node.get(editor, [i]);
+      }
+    });
+  })
+
+  it(`insert_text in ${OPS} blocks`, () => {
+    measure('shared draft', editor => {
+      Editor.withoutNormalizing(editor, () => {
+        for (let i = 0; i < BLOCKS; i += step) {
+          editor.apply({ type: 'insert_text', path: [i, 0], offset: 0, text: 'x' });
+        }
+      });
+    });
+
+    measure('draft per op', editor => {
+      for (let i = 0; i < BLOCKS; i += step) {
+        editor.apply({ type: 'insert_text', path: [i, 0], offset: 0, text: 'x' });
+        Node.get(editor, [i]);
+      }
+    });
+  })
+
+  it(`insertNodes with a ${OPS}-block fragment`, () => {
+    const fragment = createValue().slice(0, OPS);
+
+    measure('shared draft', editor => {
+      Transforms.insertNodes(editor, fragment, { at: [BLOCKS / 2] });
+    });
+
+    measure('draft per op', editor => {
+      fragment.forEach((node, i) => {
+        Transforms.insertNodes(editor, node, { at: [BLOCKS / 2 + i] });
+        Node.get(editor, [BLOCKS / 2 + i]);
+      });
+    });
+  })
+})
@@ -8,8 +8,10 @@ import { PointRef } from "./interfaces/point-ref";
 import { Range } from "./interfaces/range";
 import { RangeRef } from "./interfaces/range-ref";
 import { Text } from "./interfaces/text";
+import { TextUnit } from "./interfaces/types";
 import { Transforms } from "./transforms";
-import { DIRTY_PATHS, DIRTY_PATHS_KEYS } from "./utils/weak-maps";
+import { DIRTY_PATHS, DIRTY_PATHS_KEYS, EDITOR_TO_LISTENERS, FLUSHING, TRANSACTION } from "./utils/weak-maps";
+import { toPlain } from "./utils/draft";
 
 export const createEditor = (): Editor => {
   const editor: Editor = {
@@ -42,10 +44,17 @@ export const createEditor = (): Editor => {
       editor.marks = null;
     },
 
-    deleteBackward() {
+    deleteBackward(unit: TextUnit = 'character') {
       const { selection } = editor;
       if (selection && Range.isCollapsed(selection)) {
-        Transforms.delete(editor);
+        Transforms.delete(editor, { unit });
+      }
+    },
+
+    deleteForward(unit: TextUnit = 'character') {
+      const { selection } = editor;
+      if (selection && Range.isCollapsed(selection)) {
+        Transforms.delete(editor, { unit, reverse: true });
       }
     },
 
@@ -87,6 +96,46 @@ export const createEditor = (): Editor => {
     },
 
     apply: (op: Operation) => {
+      // 多次 apply 合并为一次 onChange，使用 promise。记录这一批 op 之前的 selection
+      if (!FLUSHING.get(editor)) {
+        FLUSHING.set(editor, true);
+        const selectionBefore = editor.selection;
+
+        Promise.resolve().then(() => {
+          FLUSHING.set(editor, false);
+          const { operations } = editor;
+          editor.onChange();
+          editor.operations = [];
+
+          const listeners = EDITOR_TO_LISTENERS.get(editor);
+          if (listeners && listeners.size) {
+            const selectionAfter = editor.selection;
+            const event = {
+              operations,
+              valueChanged: operations.some(o => o.type !== 'set_selection'),
+              selectionChanged: selectionBefore !== selectionAfter && !(
+                selectionBefore && selectionAfter && Range.equals(selectionBefore, selectionAfter)
+              ),
+              selectionBefore,
+              selectionAfter,
+            };
+            // 复制一份，监听函数里面取消订阅不影响这次通知
+            for (const listener of [...listeners]) {
+              listener(event);
+            }
+          }
+        });
+      }
+
+      // 同一批 op 共用 draft，op 里面的节点可能是 draft，需要在 finishDraft 之前转换成普通对象
+      for (const key of Object.keys(op)) {
+        const value = op[key];
+        const plain = toPlain(value);
+        if (plain !== value) {
+          op[key] = plain;
+        }
+      }
+
       for (const pointRef of Editor.pointRefs(editor)) {
         PointRef.transform(pointRef, op);
       }
@@ -99,8 +148,8 @@ export const createEditor = (): Editor => {
         PathRef.transform(pathRef, op);
       }
 
-      const dirtyPaths: Path[] = [];
-      const dirtyPathKeys: Set<string> = new Set();
+      let dirtyPaths: Path[] = [];
+      let dirtyPathKeys: Set<string> = new Set();
 
       const add = (path: Path | null) => {
         if (!path) {
@@ -114,14 +163,20 @@ export const createEditor = (): Editor => {
       }
 
       const oldDirtyPath = DIRTY_PATHS.get(editor) || [];
-      for (const oldPath of oldDirtyPath) {
-         /**
-         * 对于前几次 apply 产生的 path，需要重新 transform。因为当前 op 可能会对之前的 path 产生影响
-         * 比如 [111，222] 2个节点， 选择12进行加粗，此时的path是[11,1,2,22] dirtyPath(split_node)是 [1,2,22]
-         * 因为[1,2] 可以合并为一个，所以合并之后 dirtyPath [22] 的 path 需要重新计算一遍
-         */
-        const newPath = Path.transform(oldPath, op);
-        add(newPath);
+      // 不会改变 path 的 op 直接沿用之前的脏路径，否则一批 op 每次都要 transform 全部的脏路径
+      if (op.type === 'insert_text' || op.type === 'remove_text' || op.type === 'set_node') {
+        dirtyPaths = oldDirtyPath;
+        dirtyPathKeys = DIRTY_PATHS_KEYS.get(editor) || new Set();
+      } else {
+        for (const oldPath of oldDirtyPath) {
+          /**
+           * 对于前几次 apply 产生的 path，需要重新 transform。因为当前 op 可能会对之前的 path 产生影响
+           * 比如 [111，222] 2个节点， 选择12进行加粗，此时的path是[11,1,2,22] dirtyPath(split_node)是 [1,2,22]
+           * 因为[1,2] 可以合并为一个，所以合并之后 dirtyPath [22] 的 path 需要重新计算一遍
+           */
+          const newPath = Path.transform(oldPath, op);
+          add(newPath);
+        }
       }
 
       const newDirtyPaths = editor.getDirtyPaths(op)
@@ -135,16 +190,16 @@ export const createEditor = (): Editor => {
 
       Transforms.transform(editor, op);
 
+      // 事务中的 op 记录下来，失败的时候回滚
+      const transaction = TRANSACTION.get(editor);
+      if (transaction && !transaction.rollingBack) {
+        transaction.operations.push(op);
+      }
+
       // 失焦的时候取消 marks
       if (op.type === 'set_selection') {
         editor.marks = null;
       }
-
-      // 多次 apply 可以合并为一次 onchange，使用 promise
-      Promise.resolve().then(() => {
-        editor.onChange();
-        editor.operations = [];
-      });
     },
 
     /**
@@ -6,6 +6,10 @@ export * from './interfaces/path';
 export * from './interfaces/point';
 export * from './interfaces/range';
 export * from './interfaces/operation';
+export * from './interfaces/types';
+export * from './interfaces/schema';
+export * from './interfaces/markdown';
 
 export * from './transforms/index';
 export * from './create-editor';
+export * from './with-schema';
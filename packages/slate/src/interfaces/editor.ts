@@ -4,17 +4,20 @@ import { Node } from './node';
 import { Operation } from "./operation";
 import { Range } from './range';
 import { Point } from './point';
-import { LeafEdge, RangeDirection, RangeMode, TextDirection } from "./types";
+import { LeafEdge, RangeDirection, RangeMode, TextDirection, TextUnit, TextUnitAdjustment } from "./types";
 import { Path } from "./path";
 import { Location } from './location';
 import { Text } from "./text";
 import { Element } from './element';
 import { ExtendedType } from "./custom-types";
 import { PointRef } from "./point-ref";
-import { DIRTY_PATHS, DIRTY_PATHS_KEYS, NORMALIZING, PATH_REFS, POINT_REFS, RANGE_REFS } from "../utils/weak-maps";
+import { DIRTY_PATHS, DIRTY_PATHS_KEYS, EDITOR_TO_LISTENERS, EDITOR_TO_SCHEMA, NORMALIZING, PATH_REFS, POINT_REFS, RANGE_REFS, TRANSACTION } from "../utils/weak-maps";
+import { Schema, SchemaViolation } from "./schema";
 import { RangeRef } from "./range-ref";
 import { PathRef } from "./path-ref";
 import { SelectionMode } from './types';
+import { getDistances } from "../utils/string";
+import { finishChildren } from "../utils/draft";
 
 export type BaseSelection = Range | null;
 export type Selection = ExtendedType<BaseSelection>;
@@ -43,6 +46,7 @@ export interface EditorPositionsOptions {
   at?: Location,
   reverse?: boolean,
   voids?: boolean;
+  unit?: TextUnitAdjustment;
 }
 
 export type NodeMatch<T extends Node> =
@@ -85,10 +89,12 @@ export interface PathRefOptions {
 
 export interface BeforeOptions {
   distance?: number;
+  unit?: TextUnitAdjustment;
 }
 
 export interface AfterOptions {
   distance?: number;
+  unit?: TextUnitAdjustment;
 }
 
 export interface EditorVoidOptions {
@@ -100,6 +106,36 @@ export interface EditorStringOptions {
   voids?: boolean;
 }
 
+export interface EditorDeleteOptions {
+  unit?: TextUnit;
+}
+
+/**
+ * 正在执行的事务，嵌套的事务共用最外层的对象
+ *   - operations: 事务中已经 apply 的 op
+ *   - rollingBack: 是否正在回滚，回滚时 apply 的是 operations 的 inverse
+ */
+export interface EditorTransaction {
+  operations: Operation[];
+  rollingBack: boolean;
+}
+
+/**
+ * 一次 flush（同一个微任务里 apply 的所有 op）的变更事件
+ *   - operations: 这一批 apply 的 op
+ *   - valueChanged: 是否有修改 children 的 op
+ *   - selectionChanged: flush 前后的 selection 是否不同
+ */
+export interface EditorChangeEvent {
+  operations: Operation[];
+  valueChanged: boolean;
+  selectionChanged: boolean;
+  selectionBefore: Selection;
+  selectionAfter: Selection;
+}
+
+export type EditorChangeListener = (event: EditorChangeEvent) => void;
+
 /**
  * slate 本身提供的
  */
@@ -116,7 +152,8 @@ export interface BaseEditor {
   onChange: () => void;
   isInline: (element: Element) => boolean;
   insertText: (text: string) => void;
-  deleteBackward: () => void;
+  deleteBackward: (unit?: TextUnit) => void;
+  deleteForward: (unit?: TextUnit) => void;
   deleteFragment: () => void;
 
   addMark: (key: string, value: any) => void;
@@ -169,7 +206,8 @@ export interface EditorInterface {
   removeMark: (editor: Editor, key: string) => void;
 
   insertText: (editor: Editor, text: string) => void;
-  deleteBackward: (editor: Editor) => void;
+  deleteBackward: (editor: Editor, options?: EditorDeleteOptions) => void;
+  deleteForward: (editor: Editor, options?: EditorDeleteOptions) => void;
   deleteFragment: (editor: Editor) => void;
   getFragment: (editor: Editor) => Descendant[];
   insertFragment: (editor: Editor, data: Descendant[]) => void;
@@ -214,7 +252,11 @@ export interface EditorInterface {
   isNormalizing: (editor: Editor) => boolean;
   setNormalizing: (editor: Editor, isNormalizing: boolean) => void;
   withoutNormalizing: (editor: Editor, fn: () => void) => void;
+  transaction: (editor: Editor, fn: () => void) => void;
+  getTransaction: (editor: Editor) => EditorTransaction | undefined;
+  subscribe: (editor: Editor, listener: EditorChangeListener) => () => void;
   normalize: (editor: Editor) => void;
+  validate: (editor: Editor) => SchemaViolation[];
 
   insertBreak: (editor: Editor) => void;
   isEmpty: (editor: Editor, element: Element) => boolean;
@@ -232,6 +274,91 @@ export interface EditorInterface {
 
 export const root = `__SLATE__${Math.random()}`;
 
+/**
+ * 按 unit 返回 start 到 end 之间的 point。
+ * 先拿到整个 block 的文本，按 unit 切分一次得到每一步的距离，再把距离分摊到 block 下面的每一个 text 节点上，
+ * 这样跨 text 节点的时候不会返回重复的位置，也不会停在一个字符的中间
+ */
+function* unitPositions(
+  editor: Editor,
+  start: Point,
+  end: Point,
+  options: { reverse: boolean, voids: boolean, unit: Exclude<TextUnitAdjustment, 'offset'> },
+): Generator<Point, void, undefined> {
+  const { reverse, voids, unit } = options;
+  const first = reverse ? end : start;
+  // block 中每一步的距离
+  let distances = getDistances('', unit, reverse);
+  // 当前这一步还剩多少距离，跨 text 节点的时候会有剩余
+  let distance = 0;
+  let isNewBlock = false;
+
+  for (const [node, path] of Editor.nodes(editor, { at: { anchor: start, focus: end }, reverse, voids })) {
+    if (Element.isElement(node)) {
+      // void 节点只返回开头的位置
+      if (!voids && editor.isVoid(node)) {
+        yield Editor.start(editor, path);
+        continue;
+      }
+
+      if (editor.isInline(node)) {
+        continue;
+      }
+
+      if (Editor.hasInlines(editor, node)) {
+        const s = Path.isAncestor(path, start.path) ? start : Editor.start(editor, path);
+        const e = Path.isAncestor(path, end.path) ? end : Editor.end(editor, path);
+        const blockText = Editor.string(editor, { anchor: s, focus: e }, { voids });
+        distances = getDistances(blockText, unit, reverse);
+        distance = 0;
+        isNewBlock = true;
+      }
+    }
+
+    if (Text.isText(node)) {
+      const isFirst = Path.equals(path, first.path);
+      let offset: number;
+      // text 节点中剩下还没有走过的长度
+      let remaining: number;
+
+      if (isFirst) {
+        offset = first.offset;
+        remaining = reverse ? first.offset : node.text.length - first.offset;
+      } else {
+        offset = reverse ? node.text.length : 0;
+        remaining = node.text.length;
+      }
+
+      // 起点和每一个 block 的开头（reverse 时是结尾）都要返回
+      if (isFirst || isNewBlock) {
+        yield { path, offset };
+        isNewBlock = false;
+      }
+
+      while (true) {
+        if (distance === 0) {
+          const next = distances.next();
+          if (next.done) {
+            break;
+          }
+          distance = next.value;
+        }
+
+        // 这一步超出了当前 text 节点，剩下的距离留给下一个 text 节点
+        if (distance > remaining) {
+          distance -= remaining;
+          break;
+        }
+
+        offset = reverse ? offset - distance : offset + distance;
+        remaining -= distance;
+        distance = 0;
+        yield { path, offset };
+      }
+    }
+  }
+}
+
 export const Editor: EditorInterface = {
   isEditor(value: any) {
     if (!isPlainObject(value)) {
@@ -547,9 +674,13 @@ export const Editor: EditorInterface = {
 
   /**
    * 在 at 范围之内，返回所有的 point 节点
+   *   - offset: 每一个 offset 都返回，包括 text 节点之间重复的位置
+   *   - character: 按字形（grapheme cluster）返回，不会停在 emoji 等多个 UTF-16 字符组成的字符中间
+   *   - word: 按单词返回
+   *   - line | block: 返回 block 的开头和结尾，core 里面没有排版信息，line 跟 block 一样处理
    */
   *positions(editor: Editor, options: EditorPositionsOptions = {}): Generator<Point, void, undefined> {
-    const { at, reverse = false, voids = false } = options;
+    const { at, reverse = false, voids = false, unit = 'offset' } = options;
     if (!at) {
       return;
     }
@@ -557,6 +688,11 @@ export const Editor: EditorInterface = {
     const range = Editor.range(editor, at);
     const [start, end] = Range.edges(range);
 
+    if (unit !== 'offset') {
+      yield* unitPositions(editor, start, end, { reverse, voids, unit });
+      return;
+    }
+
     for (const nodeEntry of Editor.nodes(editor, {
       at: range,
       reverse,
@@ -628,7 +764,7 @@ export const Editor: EditorInterface = {
    * 根据 location 返回上一步 point
    */
   before(editor: Editor, at: Location, options: BeforeOptions = {}): Point | undefined {
-    const { distance = 1 } = options;
+    const { distance = 1, unit = 'offset' } = options;
     let d = 0;
     // 从 root 节点最左边的 textPoint
     const anchor = Editor.start(editor, []);
@@ -639,7 +775,8 @@ export const Editor: EditorInterface = {
 
     for (const node of Editor.positions(editor, { 
       at: range,
-      reverse: true
+      reverse: true,
+      unit,
     })) {
       if (d > distance) {
         break;
@@ -659,7 +796,7 @@ export const Editor: EditorInterface = {
    * 根据 location 返回后一步 point
    */
   after(editor: Editor, at: Location, options: AfterOptions = {}): Point | undefined {
-    const { distance = 1 } = options;
+    const { distance = 1, unit = 'offset' } = options;
     let d = 0;
     // 从 root 节点最右边的 textPoint
     const anchor = Editor.end(editor, at);
@@ -670,6 +807,7 @@ export const Editor: EditorInterface = {
 
     for (const node of Editor.positions(editor, { 
       at: range,
+      unit,
     })) {
       if (d > distance) {
         break;
@@ -692,13 +830,15 @@ export const Editor: EditorInterface = {
 
     let text = '';
     for (const [textNode, textNodePath] of Editor.nodes(editor, { at: range, match: Text.isText, voids })) {
+      let t = textNode.text;
+      // 先截掉 end 后面的文本，start 跟 end 在同一个节点的时候 start.offset 才是对的
+      if (Path.equals(end.path, textNodePath)) {
+        t = t.slice(0, end.offset);
+      }
       if (Path.equals(start.path, textNodePath)) {
-        text += textNode.text.slice(start.offset);
-      } else if (Path.equals(end.path, textNodePath)) {
-        text += textNode.text.slice(end.offset);
-      } else {
-        text += textNode.text;
+        t = t.slice(start.offset);
       }
+      text += t;
     };
 
     return text;
@@ -708,8 +848,14 @@ export const Editor: EditorInterface = {
     editor.insertText(text);
   },
 
-  deleteBackward(editor: Editor): void {
-    editor.deleteBackward();
+  deleteBackward(editor: Editor, options: EditorDeleteOptions = {}): void {
+    const { unit = 'character' } = options;
+    editor.deleteBackward(unit);
+  },
+
+  deleteForward(editor: Editor, options: EditorDeleteOptions = {}): void {
+    const { unit = 'character' } = options;
+    editor.deleteForward(unit);
   },
 
   deleteFragment(editor: Editor): void {
@@ -986,10 +1132,91 @@ export const Editor: EditorInterface = {
       fn();
     } finally {
       Editor.setNormalizing(editor, value);
+      // 最外层结束的时候，这一批 op 共用的 draft 统一完成
+      if (value) {
+        finishChildren(editor);
+      }
     }
     Editor.normalize(editor);
   },
 
+  /**
+   * 原子地执行 fn：fn（包括结束时的 normalize）抛出异常的时候，按相反的顺序 apply 已经执行的 op 的 inverse，
+   * 恢复选区和 marks，清理 fn 里面创建的 ref，然后重新抛出异常。
+   * 嵌套的事务只回滚自己的 op，异常继续抛给外层
+   */
+  transaction(editor: Editor, fn: () => void): void {
+    const parent = TRANSACTION.get(editor);
+    const transaction: EditorTransaction = parent || { operations: [], rollingBack: false };
+    const start = transaction.operations.length;
+    const { selection, marks } = editor;
+    const dirtyPaths = [...(DIRTY_PATHS.get(editor) || [])];
+    const pointRefs = new Set(Editor.pointRefs(editor));
+    const rangeRefs = new Set(Editor.rangeRefs(editor));
+    const pathRefs = new Set(Editor.pathRefs(editor));
+
+    TRANSACTION.set(editor, transaction);
+    try {
+      Editor.withoutNormalizing(editor, fn);
+    } catch (error) {
+      const inverseOps = transaction.operations.splice(start).map(Operation.inverse).reverse();
+      transaction.rollingBack = true;
+      try {
+        for (const op of inverseOps) {
+          editor.apply(op);
+        }
+
+        const current = editor.selection;
+        if (current ? !selection || !Range.equals(current, selection) : selection) {
+          editor.apply({ type: 'set_selection', properties: current, newProperties: selection } as Operation);
+        }
+      } finally {
+        transaction.rollingBack = false;
+      }
+
+      // 回滚之后文档和开始时一样，之前的脏路径仍然有效，事务中产生的脏路径不需要再 normalize
+      DIRTY_PATHS.set(editor, dirtyPaths);
+      DIRTY_PATHS_KEYS.set(editor, new Set(dirtyPaths.map(path => path.join(','))));
+      editor.marks = marks;
+
+      for (const ref of Editor.pointRefs(editor)) {
+        if (!pointRefs.has(ref)) ref.unref();
+      }
+      for (const ref of Editor.rangeRefs(editor)) {
+        if (!rangeRefs.has(ref)) ref.unref();
+      }
+      for (const ref of Editor.pathRefs(editor)) {
+        if (!pathRefs.has(ref)) ref.unref();
+      }
+
+      throw error;
+    } finally {
+      if (!parent) {
+        TRANSACTION.delete(editor);
+      }
+    }
+  },
+
+  getTransaction(editor: Editor): EditorTransaction | undefined {
+    return TRANSACTION.get(editor);
+  },
+
+  /**
+   * 订阅变更事件，每次 flush 在 editor.onChange 之后通知，返回取消订阅的函数
+   */
+  subscribe(editor: Editor, listener: EditorChangeListener): () => void {
+    let listeners = EDITOR_TO_LISTENERS.get(editor);
+    if (!listeners) {
+      listeners = new Set();
+      EDITOR_TO_LISTENERS.set(editor, listeners);
+    }
+    listeners.add(listener);
+
+    return () => {
+      listeners!.delete(listener);
+    };
+  },
+
   /**
    * 这里有隐藏的死循环的危险，一开始 withoutNormalizing 存储的 value=true，等到调用 normalize 时，此时如果存在 dirtyPath，
    * 那就会不断通过 normalizeNode 消耗掉，会不会存在没有消耗完的场景呢？不是很清楚，但是作者限制了最多只能 while 循环 dirtyPath * 42 次避免死循环
@@ -1013,10 +1240,28 @@ export const Editor: EditorInterface = {
         // 1. 获取 dirtyPath
         const key = path.join(',');
         dirtyPathKeys.delete(key);
+        // normalizeNode 拿到的节点需要是不可变的快照，不能是会跟着后面的 op 变化的 draft
+        finishChildren(editor);
         const nodeEntry = Editor.node(editor, path);
   
         editor.normalizeNode(nodeEntry);
       };
     });
-  }
-}
\ No newline at end of file
+  },
+
+  /**
+   * 按照 withSchema 设置的 schema 检查整个文档，返回所有违反规则的地方，不会修改文档
+   */
+  validate(editor: Editor): SchemaViolation[] {
+    const schema = EDITOR_TO_SCHEMA.get(editor);
+    if (!schema) {
+      return [];
+    }
+
+    const violations: SchemaViolation[] = [];
+    for (const entry of Node.nodes(editor)) {
+      violations.push(...Schema.validateNode(editor, schema, entry));
+    }
+    return violations;
+  },
+}
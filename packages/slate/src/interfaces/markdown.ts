@@ -0,0 +1,721 @@
+import { Element } from "./element";
+import { Descendant, Node } from "./node";
+import { Text } from "./text";
+
+/**
+ * 序列化的配置
+ *   - isInline: 哪些 element 是 inline 的，一般传入 editor.isInline。默认只有 link 和带 isInline 属性的 element
+ */
+export interface MarkdownSerializeOptions {
+  isInline?: (element: Element) => boolean;
+}
+
+export interface MarkdownInterface {
+  serialize: (nodes: Descendant[], options?: MarkdownSerializeOptions) => string;
+  deserialize: (markdown: string) => Descendant[];
+}
+
+type Marks = Record<string, unknown>;
+
+const HEADINGS = ['heading-one', 'heading-two', 'heading-three', 'heading-four', 'heading-five', 'heading-six'];
+
+/**
+ * 用 markdown 语法表示的 element 类型，以及语法里面已经包含的属性
+ */
+const KNOWN_PROPERTIES: Record<string, string[]> = {
+  paragraph: [],
+  'block-quote': [],
+  'bulleted-list': [],
+  'numbered-list': [],
+  'list-item': [],
+  'code-block': ['language'],
+  image: ['url', 'alt'],
+  link: ['url'],
+  ...Object.fromEntries(HEADINGS.map(type => [type, []])),
+};
+
+/**
+ * markdown 表示不了的 element 属性（比如 align、不认识的 type）放在 block 前面的注释里
+ */
+const COMMENT_REGEX = /^<!-- slate (\{.*\}) -->$/;
+const LIST_ITEM_COMMENT_REGEX = /^<!-- slate (\{.*?\}) -->/;
+/**
+ * 不认识的 mark 和 inline 节点用一对注释包起来，开始的注释里面是 mark 或者 inline 节点的属性
+ */
+const INLINE_COMMENT_START = '<!-- slate-inline ';
+const INLINE_COMMENT_REGEX = /^<!-- slate-inline (\{.*?\}) -->/;
+const INLINE_COMMENT_END = '<!-- /slate-inline -->';
+const KNOWN_MARKS = ['text', 'bold', 'italic', 'underline', 'code'];
+/**
+ * 相邻的同类列表在 markdown 中会合并成一个列表，中间用一个空注释隔开
+ */
+const LIST_SEPARATOR = '<!-- -->';
+const HEADING_REGEX = /^(#{1,6})(?:[ \t]+|$)(.*)$/;
+const LIST_ITEM_REGEX = /^( *)([-+*]|\d+[.)])(?:[ \t]+|$)(.*)$/;
+const FENCE_REGEX = /^(`{3,}|~{3,})[ \t]*([^`\s]*)[ \t]*$/;
+const IMAGE_REGEX = /^!\[((?:\\.|[^\]\\])*)\]\((<[^>]*>|[^\s()]*)\)$/;
+const ESCAPE_REGEX = /[\\`*_[\]<>#~|]/g;
+const PUNCTUATION_REGEX = /[!-/:-@[-`{-~]/;
+const WORD_REGEX = /[\p{L}\p{N}]/u;
+
+type IsInline = (element: Element) => boolean;
+
+const defaultIsInline: IsInline = element => element.type === 'link' || !!element.isInline;
+
+const hasInlineChildren = (element: Element, isInline: IsInline) => {
+  return element.children.every(child => Text.isText(child) || isInline(child));
+}
+
+const isList = (node: Descendant) => {
+  return Element.isElement(node) && (node.type === 'bulleted-list' || node.type === 'numbered-list');
+}
+
+/**
+ * markdown 语法之外的属性，type 不认识的时候 type 也放在里面
+ */
+const extraProperties = (element: Element): Record<string, unknown> => {
+  const { children, ...properties } = element;
+  const known = typeof element.type === 'string' ? KNOWN_PROPERTIES[element.type] : undefined;
+  const extra: Record<string, unknown> = {};
+
+  for (const key of Object.keys(properties)) {
+    if (known && (key === 'type' || known.includes(key))) {
+      continue;
+    }
+    extra[key] = properties[key];
+  }
+  return extra;
+}
+
+/**
+ * 属性里面的 > 转义成 \u003e，避免字符串中的 --> 提前结束注释
+ */
+const stringifyProperties = (properties: Record<string, unknown>) => {
+  return JSON.stringify(properties).replace(/>/g, '\\u003e');
+}
+
+const serializeComment = (properties: Record<string, unknown>) => {
+  return Object.keys(properties).length ? `<!-- slate ${stringifyProperties(properties)} -->` : '';
+}
+
+const serializeInlineComment = (properties: Record<string, unknown>, markdown: string) => {
+  return `${INLINE_COMMENT_START}${stringifyProperties(properties)} -->${markdown}${INLINE_COMMENT_END}`;
+}
+
+/**
+ * 文本里面的换行用 <br> 表示，不会影响 block 的结构
+ */
+const escapeText = (text: string) => {
+  return text.replace(ESCAPE_REGEX, '\\$&').replace(/\n/g, '<br>');
+}
+
+/**
+ * 每一行开头的 - + 1. 等会被当作列表，需要转义
+ */
+const escapeLines = (markdown: string) => {
+  return markdown
+    .split('\n')
+    .map(line => line.replace(/^( *)([-+]|\d+(?=[.)]))(?=\s|$|[.)])/, (_, space, marker) => {
+      return /\d/.test(marker) ? `${space}${marker}\\` : `${space}\\${marker}`;
+    }))
+    .join('\n');
+}
+
+const serializeUrl = (url: unknown) => {
+  const value = typeof url === 'string' ? url : '';
+  return /[\s()<>]/.test(value) ? `<${value.replace(/[<>]/g, encodeURIComponent)}>` : value;
+}
+
+/**
+ * code 里面有 ` 的时候用更长的 ` 包起来
+ */
+const serializeCode = (text: string) => {
+  const runs = text.match(/`+/g) || [];
+  const fence = '`'.repeat(Math.max(0, ...runs.map(run => run.length)) + 1);
+  const padding = text.startsWith('`') || text.endsWith('`') ? ' ' : '';
+  return `${fence}${padding}${text}${padding}${fence}`;
+}
+
+/**
+ * 前后的空白放在 mark 的外面，否则 ** a** 不会被识别为加粗。
+ * 单词中间的斜体用 *，其他地方用 _，避免和加粗的 ** 连在一起产生歧义
+ */
+const serializeText = (node: Text, prev: string, next: string) => {
+  const { text, ...properties } = node;
+  const [, leading, core, trailing] = text.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+  if (!core) {
+    // 空白的 text 上的 mark（比如 void 节点里面的空 text）用语法表示不出来，全部放在注释里
+    return Object.keys(properties).length ? serializeInlineComment(properties, escapeText(text)) : escapeText(text);
+  }
+
+  let markdown = node.code ? serializeCode(core) : escapeText(core);
+  if (node.italic) {
+    const intraword = (!leading && WORD_REGEX.test(prev)) || (!trailing && WORD_REGEX.test(next));
+    markdown = intraword ? `*${markdown}*` : `_${markdown}_`;
+  }
+  if (node.bold) {
+    markdown = `**${markdown}**`;
+  }
+  if (node.underline) {
+    markdown = `<u>${markdown}</u>`;
+  }
+  markdown = escapeText(leading) + markdown + escapeText(trailing);
+
+  const marks: Marks = {};
+  for (const key of Object.keys(node)) {
+    if (!KNOWN_MARKS.includes(key)) {
+      marks[key] = node[key];
+    }
+  }
+  return Object.keys(marks).length ? serializeInlineComment(marks, markdown) : markdown;
+}
+
+/**
+ * 不认识的 inline 节点把 children 之外的属性放在注释里，里面的内容照常序列化
+ */
+const serializeInlines = (nodes: Descendant[]): string => {
+  let markdown = '';
+
+  nodes.forEach((node, i) => {
+    if (Text.isText(node)) {
+      const next = nodes[i + 1];
+      markdown += serializeText(node, markdown.slice(-1), next ? Node.string(next).charAt(0) : '');
+    } else if (node.type === 'link') {
+      // 前面的 ! 会让链接变成图片
+      markdown = markdown.replace(/(^|[^\\])!$/, '$1\\!');
+      markdown += `[${serializeInlines(node.children)}](${serializeUrl(node.url)})`;
+    } else {
+      const { children, ...properties } = node;
+      markdown += serializeInlineComment(properties, serializeInlines(children));
+    }
+  });
+
+  return markdown;
+}
+
+const serializeParagraph = (element: Element) => {
+  const markdown = escapeLines(serializeInlines(element.children));
+  // 空段落在 markdown 中会消失，用 <br> 占位
+  return markdown.trim() ? markdown : '<br>';
+}
+
+const indent = (markdown: string, prefix: string, first = prefix) => {
+  return markdown
+    .split('\n')
+    .map((line, i) => (i === 0 ? first : line ? prefix : prefix.trimEnd()) + line)
+    .join('\n');
+}
+
+/**
+ * 列表的子节点是 list-item 或者嵌套的列表，其他的节点当作 list-item 处理
+ */
+const serializeList = (list: Element, isInline: IsInline): string => {
+  const ordered = list.type === 'numbered-list';
+  let index = 1;
+
+  return list.children.map(child => {
+    if (Element.isElement(child) && (child.type === 'bulleted-list' || child.type === 'numbered-list')) {
+      return indent(serializeList(child, isInline), ordered ? '   ' : '  ');
+    }
+
+    const marker = ordered ? `${index++}. ` : '- ';
+    const comment = Element.isElement(child) ? serializeComment(extraProperties(child)) : '';
+    const content = Element.isElement(child)
+      ? hasInlineChildren(child, isInline) ? escapeLines(serializeInlines(child.children)) : Node.string(child)
+      : escapeLines(serializeInlines([child]));
+    return indent(comment + content, ' '.repeat(marker.length), marker);
+  }).join('\n');
+}
+
+const serializeBlock = (node: Descendant, isInline: IsInline): string => {
+  if (Text.isText(node)) {
+    return escapeLines(serializeInlines([node]));
+  }
+
+  const { type } = node;
+  const comment = serializeComment(extraProperties(node));
+  let markdown: string;
+
+  if (type === 'image') {
+    markdown = `![${escapeText(typeof node.alt === 'string' ? node.alt : '')}](${serializeUrl(node.url)})`;
+  } else if (type === 'code-block') {
+    const code = Node.string(node);
+    const runs = code.match(/^`{3,}/gm) || [];
+    const fence = '`'.repeat(Math.max(2, ...runs.map(run => run.length)) + 1);
+    markdown = `${fence}${typeof node.language === 'string' ? node.language : ''}\n${code}\n${fence}`;
+  } else if (type === 'bulleted-list' || type === 'numbered-list') {
+    markdown = serializeList(node, isInline);
+  } else if (!hasInlineChildren(node, isInline)) {
+    // 包含 block 的节点：block-quote 在每一行前面加 >，其他的只保留子节点
+    const content = serializeBlocks(node.children, isInline);
+    markdown = type === 'block-quote' ? indent(content, '> ') : content;
+    return type === 'block-quote' ? [comment, markdown].filter(Boolean).join('\n') : markdown;
+  } else if (HEADINGS.includes(type)) {
+    markdown = `${'#'.repeat(HEADINGS.indexOf(type) + 1)} ${serializeInlines(node.children)}`;
+  } else if (type === 'block-quote') {
+    markdown = indent(serializeParagraph(node), '> ');
+  } else {
+    markdown = serializeParagraph(node);
+  }
+
+  return [comment, markdown].filter(Boolean).join('\n');
+}
+
+const serializeBlocks = (nodes: Descendant[], isInline: IsInline) => {
+  return nodes.map((node, i) => {
+    const markdown = serializeBlock(node, isInline);
+    const prev = nodes[i - 1];
+    return prev && isList(prev) && isList(node) && (prev as Element).type === (node as Element).type
+      ? `${LIST_SEPARATOR}\n\n${markdown}`
+      : markdown;
+  }).join('\n\n');
+}
+
+/**
+ * 相邻 mark 相同的 text 合并，inline 前后补上空的 text，跟 slate 的 normalize 规则一致
+ */
+const normalizeInlines = (nodes: Descendant[]): Descendant[] => {
+  const result: Descendant[] = [];
+
+  for (const node of nodes) {
+    const prev = result[result.length - 1];
+    if (Text.isText(node)) {
+      if (prev && Text.isText(prev) && Text.equals(prev, node, { isEqualText: false })) {
+        result[result.length - 1] = { ...prev, text: prev.text + node.text };
+      } else if (node.text || !prev || !Text.isText(prev)) {
+        result.push(node);
+      }
+      continue;
+    }
+
+    if (!prev || !Text.isText(prev)) {
+      result.push({ text: '' });
+    }
+    result.push(node);
+  }
+
+  const last = result[result.length - 1];
+  if (!last || !Text.isText(last)) {
+    result.push({ text: '' });
+  }
+  return result;
+}
+
+/**
+ * 从 from 开始找到没有被转义、不在 code 里面的结束标记
+ */
+const findClosing = (src: string, from: number, delimiter: string): number => {
+  for (let i = from; i < src.length; i++) {
+    const char = src[i];
+    if (char === '\\') {
+      i++;
+      continue;
+    }
+    if (char === '`') {
+      const run = src.slice(i).match(/^`+/)![0];
+      const end = src.indexOf(run, i + run.length);
+      if (end !== -1) {
+        i = end + run.length - 1;
+        continue;
+      }
+    }
+
+    if (delimiter === '*' || delimiter === '**') {
+      // 单个 * 和 ** 互相跳过，*a **b** c* 中间的 ** 不是斜体的结束
+      if (char !== '*') {
+        continue;
+      }
+      const run = src.slice(i).match(/^\*+/)![0];
+      if (run.length === delimiter.length) {
+        return i;
+      }
+      // ***x*** 里面的斜体在里层，最后两个 * 才是加粗的结束
+      if (delimiter === '**' && run.length > 2) {
+        return i + run.length - 2;
+      }
+      i += run.length - 1;
+      continue;
+    }
+
+    if (src.startsWith(delimiter, i)) {
+      if (delimiter === '_' && (src[i + 1] === '_' || WORD_REGEX.test(src[i + 1] || ''))) {
+        continue;
+      }
+      if (delimiter === '__' && WORD_REGEX.test(src[i + 2] || '')) {
+        continue;
+      }
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * 从 from 开始找到和前面的 <!-- slate-inline {...} --> 匹配的 <!-- /slate-inline -->，中间可能嵌套
+ */
+const findInlineCommentEnd = (src: string, from: number): number => {
+  let depth = 0;
+  for (let i = from; i < src.length; i++) {
+    if (src[i] === '\\') {
+      i++;
+    } else if (src.startsWith(INLINE_COMMENT_START, i)) {
+      depth++;
+    } else if (src.startsWith(INLINE_COMMENT_END, i)) {
+      if (depth === 0) {
+        return i;
+      }
+      depth--;
+    }
+  }
+  return -1;
+}
+
+/**
+ * 找到和 src[from] 的 [ 匹配的 ]
+ */
+const findBracket = (src: string, from: number): number => {
+  let depth = 0;
+  for (let i = from; i < src.length; i++) {
+    if (src[i] === '\\') {
+      i++;
+    } else if (src[i] === '[') {
+      depth++;
+    } else if (src[i] === ']' && --depth === 0) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+const parseUrl = (url: string) => {
+  return url.startsWith('<') && url.endsWith('>') ? url.slice(1, -1).replace(/%3C|%3E/g, decodeURIComponent) : url;
+}
+
+const parseInlines = (src: string, marks: Marks): Descendant[] => {
+  const nodes: Descendant[] = [];
+  let text = '';
+  let i = 0;
+
+  const flush = () => {
+    if (text) {
+      nodes.push({ ...marks, text });
+      text = '';
+    }
+  }
+
+  while (i < src.length) {
+    const char = src[i];
+    const rest = src.slice(i);
+
+    if (char === '\\' && i + 1 < src.length) {
+      const next = src[i + 1];
+      text += next === '\n' ? '\n' : PUNCTUATION_REGEX.test(next) ? next : char + next;
+      i += 2;
+      continue;
+    }
+
+    // 软换行在 markdown 中等于空格
+    if (char === '\n') {
+      text += ' ';
+      i++;
+      continue;
+    }
+
+    if (char === '`') {
+      const run = rest.match(/^`+/)![0];
+      const end = src.indexOf(run, i + run.length);
+      if (end !== -1 && src[end + run.length] !== '`') {
+        let code = src.slice(i + run.length, end);
+        if (code.length > 2 && code.startsWith(' ') && code.endsWith(' ') && code.trim()) {
+          code = code.slice(1, -1);
+        }
+        flush();
+        nodes.push({ ...marks, code: true, text: code });
+        i = end + run.length;
+        continue;
+      }
+      text += run;
+      i += run.length;
+      continue;
+    }
+
+    const delimiter = rest.match(/^(\*\*|__|\*|_)/)?.[0];
+    if (delimiter) {
+      const intraword = delimiter[0] === '_' && WORD_REGEX.test(src[i - 1] || '');
+      const end = intraword ? -1 : findClosing(src, i + delimiter.length, delimiter);
+      if (end > i + delimiter.length) {
+        const mark = delimiter.length === 2 ? 'bold' : 'italic';
+        flush();
+        nodes.push(...parseInlines(src.slice(i + delimiter.length, end), { ...marks, [mark]: true }));
+        i = end + delimiter.length;
+        continue;
+      }
+      text += delimiter;
+      i += delimiter.length;
+      continue;
+    }
+
+    if (rest.startsWith('<u>')) {
+      const end = src.indexOf('</u>', i + 3);
+      if (end !== -1) {
+        flush();
+        nodes.push(...parseInlines(src.slice(i + 3, end), { ...marks, underline: true }));
+        i = end + 4;
+        continue;
+      }
+    }
+
+    const comment = rest.match(INLINE_COMMENT_REGEX);
+    const commentEnd = comment ? findInlineCommentEnd(src, i + comment[0].length) : -1;
+    if (comment && commentEnd !== -1) {
+      const properties = JSON.parse(comment[1]);
+      const content = src.slice(i + comment[0].length, commentEnd);
+      flush();
+      if ('type' in properties || properties.isInline) {
+        // 不认识的 inline 节点，text 节点上不会有 type
+        const children = parseInlines(content, marks);
+        nodes.push({ ...properties, children: children.length ? children : [{ text: '' }] });
+      } else {
+        // 不认识的 mark，内容为空的时候是一个带 mark 的空 text
+        const children = parseInlines(content, { ...marks, ...properties });
+        nodes.push(...(children.length ? children : [{ ...marks, ...properties, text: '' }]));
+      }
+      i = commentEnd + INLINE_COMMENT_END.length;
+      continue;
+    }
+
+    const br = rest.match(/^<br\s*\/?>/i);
+    if (br) {
+      text += '\n';
+      i += br[0].length;
+      continue;
+    }
+
+    if (char === '[') {
+      const close = findBracket(src, i);
+      const url = close === -1 ? null : src.slice(close + 1).match(/^\((<[^>]*>|[^\s()]*)\)/);
+      if (url && src[i - 1] === '!') {
+        // 段落中间的图片保留原文
+        text += src.slice(i, close + 1 + url[0].length);
+        i = close + 1 + url[0].length;
+        continue;
+      }
+      if (url) {
+        flush();
+        const children = parseInlines(src.slice(i + 1, close), marks).filter(Text.isText);
+        nodes.push({ type: 'link', url: parseUrl(url[1]), children: children.length ? children : [{ text: '' }] });
+        i = close + 1 + url[0].length;
+        continue;
+      }
+    }
+
+    text += char;
+    i++;
+  }
+
+  flush();
+  return nodes;
+}
+
+const parseInline = (src: string) => {
+  return normalizeInlines(parseInlines(src, {}));
+}
+
+const indentOf = (line: string) => line.match(/^ */)![0].length;
+
+const isBlockStart = (line: string) => {
+  return HEADING_REGEX.test(line)
+    || /^ {0,3}>/.test(line)
+    || LIST_ITEM_REGEX.test(line)
+    || FENCE_REGEX.test(line.trim())
+    || COMMENT_REGEX.test(line.trim())
+    || line.trim() === LIST_SEPARATOR;
+}
+
+/**
+ * 解析从 start 开始的列表，缩进更多的列表项是嵌套的列表，作为 list-item 后面的兄弟节点
+ */
+const parseList = (lines: string[], start: number): [Element, number] => {
+  const [, space, marker] = lines[start].match(LIST_ITEM_REGEX)!;
+  const base = space.length;
+  const ordered = /\d/.test(marker);
+  const children: Descendant[] = [];
+  let i = start;
+
+  const sameList = (line: string) => {
+    const match = line.match(LIST_ITEM_REGEX);
+    return !!match && match[1].length === base && /\d/.test(match[2]) === ordered;
+  }
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      // 空行后面还是同一个列表的列表项时，继续这个列表
+      let next = i;
+      while (next < lines.length && !lines[next].trim()) {
+        next++;
+      }
+      if (next < lines.length && sameList(lines[next])) {
+        i = next;
+        continue;
+      }
+      break;
+    }
+
+    if (sameList(line)) {
+      const [, , itemMarker, content] = line.match(LIST_ITEM_REGEX)!;
+      const width = base + itemMarker.length + 1;
+      const contentLines = [content];
+      i++;
+
+      // 缩进的非列表行是这个列表项的后续行
+      while (i < lines.length && lines[i].trim() && indentOf(lines[i]) >= width && !LIST_ITEM_REGEX.test(lines[i])) {
+        contentLines.push(lines[i].slice(width));
+        i++;
+      }
+
+      let src = contentLines.join('\n');
+      let properties: Record<string, unknown> = {};
+      const comment = src.match(LIST_ITEM_COMMENT_REGEX);
+      if (comment) {
+        properties = JSON.parse(comment[1]);
+        src = src.slice(comment[0].length);
+      }
+      children.push({ type: 'list-item', ...properties, children: parseInline(src) });
+      continue;
+    }
+
+    if (indentOf(line) > base && LIST_ITEM_REGEX.test(line)) {
+      const [nested, next] = parseList(lines, i);
+      children.push(nested);
+      i = next;
+      continue;
+    }
+
+    break;
+  }
+
+  return [{ type: ordered ? 'numbered-list' : 'bulleted-list', children }, i];
+}
+
+const parseBlocks = (lines: string[]): Descendant[] => {
+  const blocks: Descendant[] = [];
+  let properties: Record<string, unknown> | null = null;
+  let i = 0;
+
+  const push = (block: Element) => {
+    blocks.push(properties ? { ...block, ...properties } : block);
+    properties = null;
+  }
+
+  while (i < lines.length) {
+    const line = lines[i];
+    const trimmed = line.trim();
+
+    if (!trimmed) {
+      i++;
+      continue;
+    }
+
+    if (trimmed === LIST_SEPARATOR) {
+      i++;
+      continue;
+    }
+
+    const comment = trimmed.match(COMMENT_REGEX);
+    if (comment) {
+      properties = JSON.parse(comment[1]);
+      i++;
+      continue;
+    }
+
+    const fence = trimmed.match(FENCE_REGEX);
+    if (fence) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !(lines[i].trim().startsWith(fence[1]) && !lines[i].trim().slice(fence[1].length).trim())) {
+        code.push(lines[i]);
+        i++;
+      }
+      i++;
+      push({
+        type: 'code-block',
+        ...(fence[2] ? { language: fence[2] } : {}),
+        children: [{ text: code.join('\n') }],
+      });
+      continue;
+    }
+
+    const heading = line.match(HEADING_REGEX);
+    if (heading) {
+      push({ type: HEADINGS[heading[1].length - 1], children: parseInline(heading[2].replace(/[ \t]+#+[ \t]*$/, '')) });
+      i++;
+      continue;
+    }
+
+    if (/^ {0,3}>/.test(line)) {
+      const quote: string[] = [];
+      while (i < lines.length && /^ {0,3}>/.test(lines[i])) {
+        quote.push(lines[i].replace(/^ {0,3}> ?/, ''));
+        i++;
+      }
+      // 只有一个段落的引用，子节点直接是文本
+      const content = parseBlocks(quote);
+      const [first] = content;
+      const single = content.length === 1 && Element.isElement(first) && first.type === 'paragraph' && Object.keys(first).length === 2;
+      push({ type: 'block-quote', children: single ? (first as Element).children : content.length ? content : [{ text: '' }] });
+      continue;
+    }
+
+    if (LIST_ITEM_REGEX.test(line)) {
+      const [list, next] = parseList(lines, i);
+      push(list);
+      i = next;
+      continue;
+    }
+
+    const image = trimmed.match(IMAGE_REGEX);
+    if (image) {
+      const alt = parseInlines(image[1], {}).map(node => Node.string(node)).join('');
+      push({ type: 'image', url: parseUrl(image[2]), ...(alt ? { alt } : {}), children: [{ text: '' }] });
+      i++;
+      continue;
+    }
+
+    // 其他的都是段落，直到空行或者其他 block 开始
+    const paragraph = [line];
+    i++;
+    while (i < lines.length && lines[i].trim() && !isBlockStart(lines[i])) {
+      paragraph.push(lines[i]);
+      i++;
+    }
+    const src = paragraph.map(item => item.replace(/^[ \t]+/, '')).join('\n');
+    push({ type: 'paragraph', children: /^<br\s*\/?>$/i.test(src.trim()) ? [{ text: '' }] : parseInline(src) });
+  }
+
+  return blocks;
+}
+
+// eslint-disable-next-line no-redeclare
+export const Markdown: MarkdownInterface = {
+  /**
+   * 把 slate 的节点序列化为 markdown
+   *   - 没有 type 的 element 和 paragraph 一样是普通段落，包含 block 的 element 只保留子节点
+   *   - markdown 表示不了的属性和不认识的 type 放在 block 前面的 <!-- slate {...} --> 注释里，反序列化的时候还原
+   *   - 不认识的 mark 和 inline 节点用 <!-- slate-inline {...} --> 和 <!-- /slate-inline --> 包起来，反序列化的时候还原
+   *   - 相邻的同类列表之间用 <!-- --> 隔开
+   */
+  serialize(nodes: Descendant[], options: MarkdownSerializeOptions = {}): string {
+    const { isInline = defaultIsInline } = options;
+    return serializeBlocks(nodes, isInline);
+  },
+
+  /**
+   * 把 markdown 反序列化为 slate 的节点，不认识的语法（比如 html）当作普通段落的文本
+   */
+  deserialize(markdown: string): Descendant[] {
+    const blocks = parseBlocks(markdown.replace(/\r\n?/g, '\n').split('\n'));
+    return blocks.length ? blocks : [{ type: 'paragraph', children: [{ text: '' }] }];
+  },
+}
@@ -4,6 +4,7 @@ import { Path } from './path';
 import { Text } from './text';
 import { Range } from './range';
 import produce from 'immer';
+import { finishRoot } from '../utils/draft';
 
 export type Descendant = Element | Text;
 export type Node = Editor | Element | Text;
@@ -61,9 +62,11 @@ export const Node: NodeInterface = {
     )
   },
   /**
-   * 从 root 开始，根据 path 获取 slateNode
+   * 从 root 开始，根据 path 获取 slateNode。
+   * root 是 editor 的时候先完成同一批 op 共用的 draft，返回的节点不会是 draft
    */
   get(root: Node, path: Path): Node {
+    finishRoot(root);
     let node = root;    
     for (let i = 0; i < path.length; i++) {
       const p = path[i];
@@ -234,7 +237,8 @@ export const Node: NodeInterface = {
     }
   },
 
-  fragment(root: Node, range: Range): Descendant[] {    
+  fragment(root: Node, range: Range): Descendant[] {
+    finishRoot(root);
     const newRoot = produce({ children: root.children }, r => {
       const [start, end] = Range.edges(range);
       const nodeEntries = Node.nodes(r, {
@@ -262,5 +266,5 @@ export const Node: NodeInterface = {
     });
     
     return newRoot.children;
-  }
+  },
 }
\ No newline at end of file
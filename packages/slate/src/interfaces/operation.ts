@@ -1,6 +1,11 @@
+import produce from 'immer';
 import { Range } from '../interfaces/range';
 import { Path } from './path';
 import { Node } from './node';
+import { Point } from './point';
+import { Text } from './text';
+import { Editor } from './editor';
+import { applyToDraft } from '../transforms/general';
 
 export type BaseSetSelectionOperation = {
   type: 'set_selection';
@@ -60,11 +65,219 @@ export type BaseNodeOperation = {
 
 export type Operation = BaseTextOperation | BaseSetSelectionOperation | BaseNodeOperation;
 
+/**
+ * 两个并发的 op 作用在同一个位置时，谁排在前面
+ *   left: op 排在 against 前面
+ *   right: op 排在 against 后面
+ */
+export type OperationSide = 'left' | 'right';
+
 /**
  * slate 本身提供的
  */
 export interface OperationInterface {
   inverse: (op: Operation) => Operation;
+  transform: (op: Operation, against: Operation, side: OperationSide) => Operation[];
+  transformAll: (ops: Operation[], against: Operation[], side: OperationSide) => Operation[];
+}
+
+const otherSide = (side: OperationSide): OperationSide => side === 'left' ? 'right' : 'left';
+
+/**
+ * 插入位置（insert_node 的 path，move_node 的 newPath）的 transform
+ * 跟 Path.transform 不同，插入位置指向的是两个节点之间的空隙，而不是某一个节点：
+ *   - 空隙后面的节点被删除/合并之后，空隙还在原来的位置
+ *   - 空隙后面的节点被拆分之后，空隙在拆分出来的两个节点前面
+ *   - 在同一个空隙并发插入，根据 side 决定谁排在前面
+ */
+const transformGap = (path: Path, against: Operation, side: OperationSide): Path | null => {
+  switch (against.type) {
+    case 'insert_node': {
+      if (Path.equals(path, against.path)) {
+        return side === 'left' ? path : Path.next(path);
+      }
+      return Path.transform(path, against);
+    }
+    case 'remove_node':
+    case 'merge_node': {
+      if (Path.equals(path, against.path)) {
+        return path;
+      }
+      return Path.transform(path, against);
+    }
+    case 'split_node': {
+      return Path.transform(path, against, { affinity: 'backward' });
+    }
+    case 'move_node': {
+      if (Path.equals(against.path, against.newPath) || Path.isAncestor(against.path, path)) {
+        return Path.transform(path, against);
+      }
+      /**
+       * move_node 相当于先 remove_node，再在 Path.transform(path, op) 的位置 insert_node
+       */
+      const to = Path.transform(against.path, against)!;
+      const removed = transformGap(path, { type: 'remove_node', path: against.path, node: { text: '' } }, side);
+      return removed && transformGap(removed, { type: 'insert_node', path: to, node: { text: '' } }, side);
+    }
+    default:
+      return Path.transform(path, against);
+  }
+}
+
+/**
+ * against 对 parent 下 index 在 position 之前的子节点个数的影响，inclusive 表示包括 position 本身。
+ *  - split_node 拆分 element 时，position 是子节点的 index
+ *  - merge_node 合并 element 时，position 是前一个节点的子节点个数
+ */
+const transformChildIndex = (
+  parent: Path,
+  position: number,
+  against: Operation,
+  inclusive = false,
+): number => {
+  const isBefore = (path: Path, index: number) => {
+    if (!Path.equals(Path.parent(path), parent)) {
+      return false;
+    }
+    const last = path[path.length - 1];
+    return inclusive ? last <= index : last < index;
+  }
+
+  switch (against.type) {
+    case 'insert_node':
+    case 'split_node': {
+      return isBefore(against.path, position) ? position + 1 : position;
+    }
+    case 'remove_node':
+    case 'merge_node': {
+      return isBefore(against.path, position) ? position - 1 : position;
+    }
+    case 'move_node': {
+      const { path, newPath } = against;
+      // parent 跟着一起移动，子节点不变
+      if (Path.equals(path, newPath) || Path.isCommon(path, parent)) {
+        return position;
+      }
+
+      const to = Path.transform(path, against)!;
+      const removedParent = Path.transform(parent, { type: 'remove_node', path, node: { text: '' } })!;
+      let p = isBefore(path, position) ? position - 1 : position;
+      if (Path.equals(Path.parent(to), removedParent)) {
+        const last = to[to.length - 1];
+        p = (inclusive ? last <= p : last < p) ? p + 1 : p;
+      }
+      return p;
+    }
+    default:
+      return position;
+  }
+}
+
+/**
+ * 把 op 转换为以 base 节点为根（base 节点自身对应 [0]）的 op，op 不是修改 base 内部内容的时候返回 null
+ */
+const rebase = (op: Operation, base: Path): Operation | null => {
+  const relative = (path: Path) => [0, ...path.slice(base.length)];
+
+  switch (op.type) {
+    case 'set_selection': {
+      return null;
+    }
+    case 'insert_text':
+    case 'remove_text':
+    case 'set_node': {
+      return Path.isCommon(base, op.path) ? { ...op, path: relative(op.path) } : null;
+    }
+    case 'move_node': {
+      return Path.isAncestor(base, op.path) && Path.isAncestor(base, op.newPath)
+        ? { ...op, path: relative(op.path), newPath: relative(op.newPath) }
+        : null;
+    }
+    default: {
+      // insert_node/remove_node/split_node/merge_node 作用在 base 自身的时候，改变的是 base 的位置，不是内部内容
+      return Path.isAncestor(base, op.path) ? { ...op, path: relative(op.path) } : null;
+    }
+  }
+}
+
+/**
+ * 删除 node 原来的内容，node 已经被合并到 path 节点中，从 offset 开始
+ */
+const removeContents = (path: Path, node: Node, offset: number): Operation[] => {
+  if (Text.isText(node)) {
+    return node.text ? [{ type: 'remove_text', path, offset, text: node.text }] : [];
+  }
+
+  return node.children.map((child): Operation => ({
+    type: 'remove_node',
+    path: path.concat(offset),
+    node: child,
+  }));
+}
+
+/**
+ * 生成把 path 节点移动到 to 的 move_node，to 是节点最终所在的位置。
+ * 跨层级移动并且 path 在 newPath 前面时，newPath 是删除 path 之前的位置，apply 的时候会 -1，这里需要 +1
+ */
+const moveTo = (path: Path, to: Path): Operation => {
+  const op: Operation = { type: 'move_node', path, newPath: to };
+  if (Path.equals(Path.transform(path, op)!, to)) {
+    return op;
+  }
+
+  const newPath = to.slice();
+  newPath[path.length - 1] += 1;
+  return { ...op, newPath };
+}
+
+/**
+ * move 之后被移动的节点是否正好在 path 节点的前面，也就是移动到了 path 和它前一个节点中间
+ */
+const isMovedBefore = (path: Path, move: Operation & { type: 'move_node' }) => {
+  const to = Path.transform(move.path, move)!;
+  const p = Path.transform(path, move);
+  return !!p && Path.equals(Path.next(to), p);
+}
+
+/**
+ * 把 merge_node 合并的两个节点重新拆开
+ */
+const unmerge = (op: Operation & { type: 'merge_node' }): Operation => ({
+  type: 'split_node',
+  path: Path.previous(op.path),
+  position: op.position,
+});
+
+/**
+ * 两组 op 互相 transform，返回 [left', right']
+ *   left' 是 left 在 right 之后执行的结果
+ *   right' 是 right 在 left 之后执行的结果
+ */
+const transformX = (
+  left: Operation[],
+  right: Operation[],
+  side: OperationSide,
+): [Operation[], Operation[]] => {
+  if (!left.length || !right.length) {
+    return [left, right];
+  }
+
+  if (left.length === 1 && right.length === 1) {
+    return [
+      Operation.transform(left[0], right[0], side),
+      Operation.transform(right[0], left[0], otherSide(side)),
+    ];
+  }
+
+  if (left.length > 1) {
+    const [l1, r1] = transformX(left.slice(0, 1), right, side);
+    const [l2, r2] = transformX(left.slice(1), r1, side);
+    return [l1.concat(l2), r2];
+  }
+
+  const [l1, r1] = transformX(left, right.slice(0, 1), side);
+  const [l2, r2] = transformX(l1, right.slice(1), side);
+  return [l2, r1.concat(r2)];
 }
 
 // eslint-disable-next-line no-redeclare
@@ -158,5 +371,396 @@ export const Operation: OperationInterface = {
         return { ...op, path: inversePath, newPath: inverseNewPath }
       }
     }
-  }
+  },
+
+  /**
+   * op 和 against 是基于同一个文档并发产生的，返回 against 执行之后 op 应该变成的 op。
+   * 返回数组是因为 op 有可能被拆成多个（比如删除范围中间被插入了文本），也有可能变为空（比如节点已经被删除了）
+   *
+   * side 决定两个 op 作用在同一个位置时的先后顺序，两端需要传相反的 side：
+   *   apply(a) -> apply(transform(b, a, 'right')) 和 apply(b) -> apply(transform(a, b, 'left')) 的结果一致
+   */
+  transform(op: Operation, against: Operation, side: OperationSide): Operation[] {
+    // 选区不会影响文档，原地移动也不会
+    if (
+      against.type === 'set_selection' ||
+      (against.type === 'move_node' && Path.equals(against.path, against.newPath))
+    ) {
+      return [op];
+    }
+
+    // left 表示 op 排在前面，同一个位置的时候 point 保持不动
+    const affinity = side === 'left' ? 'backward' : 'forward';
+
+    switch (op.type) {
+      case 'insert_text': {
+        const point = Point.transform({ path: op.path, offset: op.offset }, against, { affinity });
+        return point ? [{ ...op, path: point.path, offset: point.offset }] : [];
+      }
+
+      case 'remove_text': {
+        const { path, offset, text } = op;
+        const end = offset + text.length;
+
+        if (Path.equals(path, against.path)) {
+          /**
+           * 别人在删除范围中间插入了文本，不能把别人的文本也删掉，拆成前后两次删除
+           * 12[34]5 => 12[3]abc[4]5
+           */
+          if (
+            against.type === 'insert_text' &&
+            against.offset > offset &&
+            against.offset < end
+          ) {
+            const distance = against.offset - offset;
+            return [
+              { ...op, text: text.slice(0, distance) },
+              { ...op, offset: offset + against.text.length, text: text.slice(distance) },
+            ];
+          }
+
+          // 两个删除范围有重叠，重叠的部分已经被删了
+          if (against.type === 'remove_text') {
+            const start = Math.min(Math.max(against.offset - offset, 0), text.length);
+            const stop = Math.min(Math.max(against.offset + against.text.length - offset, 0), text.length);
+            const rest = text.slice(0, start) + text.slice(stop);
+            const point = Point.transform({ path, offset }, against)!;
+            return rest ? [{ ...op, offset: point.offset, text: rest }] : [];
+          }
+
+          // 删除范围中间被拆分成了两个 text，前后两个 text 分别删除
+          if (
+            against.type === 'split_node' &&
+            against.position > offset &&
+            against.position < end
+          ) {
+            const distance = against.position - offset;
+            return [
+              { ...op, text: text.slice(0, distance) },
+              { ...op, path: Path.next(path), offset: 0, text: text.slice(distance) },
+            ];
+          }
+        }
+
+        const point = Point.transform({ path, offset }, against, { affinity: 'forward' });
+        return point ? [{ ...op, path: point.path, offset: point.offset }] : [];
+      }
+
+      /**
+       * 把 { path, position } 当做 point 来 transform：
+       *   - 对于 text，position 就是 offset
+       *   - 对于 element，position 是子节点的 index，还需要根据子节点个数的变化调整
+       */
+      case 'split_node': {
+        // 拆分位置两边的节点被别人合并了，合并的时候 merge_node 会被丢弃，所以这里先拆开再拆分
+        if (
+          against.type === 'merge_node' &&
+          Path.equals(Path.parent(against.path), op.path) &&
+          against.path[op.path.length] === op.position
+        ) {
+          return [unmerge(against), op];
+        }
+
+        const position = transformChildIndex(op.path, op.position, against);
+        const point = Point.transform({ path: op.path, offset: position }, against, { affinity });
+        return point ? [{ ...op, path: point.path, position: point.offset }] : [];
+      }
+
+      case 'merge_node': {
+        const prev = Path.previous(op.path);
+        let { position } = op;
+
+        // 别人已经做了同样的合并
+        if (against.type === 'merge_node' && Path.equals(against.path, op.path)) {
+          return [];
+        }
+
+        // 前一个节点已经不在了，或者中间插入了新的节点，合并已经没有意义
+        if (
+          (against.type === 'remove_node' && Path.equals(against.path, prev)) ||
+          (against.type === 'insert_node' && Path.equals(against.path, op.path)) ||
+          (
+            against.type === 'move_node' &&
+            !Path.equals(against.path, against.newPath) &&
+            (
+              Path.equals(against.path, prev) ||
+              Path.equals(against.path, op.path) ||
+              isMovedBefore(op.path, against)
+            )
+          )
+        ) {
+          return [];
+        }
+
+        // 自己被拆分成了两个节点，只把前一半合并到前一个节点，保留别人的拆分
+        if (against.type === 'split_node' && Path.equals(against.path, op.path)) {
+          return [op];
+        }
+
+        // 前一个节点的长度发生了变化
+        if (Path.equals(against.path, prev)) {
+          if (against.type === 'insert_text') {
+            position += against.text.length;
+          } else if (against.type === 'remove_text') {
+            position -= against.text.length;
+          } else if (against.type === 'merge_node') {
+            position += against.position;
+          } else if (against.type === 'split_node') {
+            position -= against.position;
+          }
+        }
+
+        position = transformChildIndex(prev, position, against, true);
+        const path = Path.transform(op.path, against);
+        // 变成了第一个子节点，前面没有可以合并的节点
+        if (!path || path[path.length - 1] === 0) {
+          return [];
+        }
+        return [{ ...op, path, position }];
+      }
+
+      case 'insert_node': {
+        // 插入的位置两边的节点被别人合并了，同上
+        if (against.type === 'merge_node' && Path.equals(against.path, op.path)) {
+          return [unmerge(against), op];
+        }
+
+        const path = transformGap(op.path, against, side);
+        return path ? [{ ...op, path }] : [];
+      }
+
+      case 'remove_node': {
+        const { path, node } = op;
+
+        // 被删除的节点被拆分了，拆分出来的两个节点都要删除
+        if (against.type === 'split_node' && Path.equals(against.path, path)) {
+          const { position } = against;
+          const [before, after] = Text.isText(node)
+            ? [{ ...node, text: node.text.slice(0, position) }, { ...node, text: node.text.slice(position) }]
+            : [{ ...node, children: node.children.slice(0, position) }, { ...node, children: node.children.slice(position) }];
+          return [{ ...op, node: before }, { ...op, node: after }];
+        }
+
+        if (against.type === 'merge_node') {
+          // 被删除的节点合并到了前一个节点，只删除它原来的那部分内容
+          if (Path.equals(against.path, path)) {
+            return removeContents(Path.previous(path), node, against.position);
+          }
+          // 后一个节点合并到了被删除的节点，只删除它原来的那部分内容
+          if (Path.equals(against.path, Path.next(path))) {
+            return removeContents(path, node, 0);
+          }
+        }
+
+        // 被删除节点内部的子节点被移动到了外面，移动出去的节点也要删除
+        if (
+          against.type === 'move_node' &&
+          Path.isAncestor(path, against.path) &&
+          !Path.isAncestor(path, against.newPath)
+        ) {
+          const relative = [0, ...against.path.slice(path.length)];
+          const to = Path.transform(against.path, against)!;
+          const removeMoved: Operation = {
+            type: 'remove_node',
+            path: to,
+            node: Node.get({ children: [node] } as Node, relative),
+          };
+          const rest = produce({ children: [node] }, draft => {
+            applyToDraft(draft as unknown as Editor, null, { type: 'remove_node', path: relative, node: removeMoved.node });
+          }).children[0];
+          const p = Path.transform(Path.transform(path, against)!, removeMoved)!;
+          return [removeMoved, { ...op, path: p, node: rest }];
+        }
+
+        /**
+         * 别的节点被移动到了被删除的节点里面，移动会被丢弃（见 move_node），
+         * 所以先把它移回原来的位置再删除，两边的结果都是保留这个节点
+         */
+        if (
+          against.type === 'move_node' &&
+          !Path.isCommon(path, against.path) &&
+          Path.isCommon(path, Path.parent(against.newPath))
+        ) {
+          const back = Operation.inverse(against);
+          const p = Path.transform(Path.transform(path, against)!, back)!;
+          return [back, { ...op, path: p }];
+        }
+
+        const newPath = Path.transform(path, against);
+        if (!newPath) {
+          return [];
+        }
+
+        // 被删除节点的内部被修改了，node 也要跟着修改，否则 inverse 回来的内容不对
+        const inner = rebase(against, path);
+        const newNode = inner
+          ? produce({ children: [node] }, draft => {
+            applyToDraft(draft as unknown as Editor, null, inner);
+          }).children[0]
+          : node;
+        return [{ ...op, path: newPath, node: newNode }];
+      }
+
+      case 'set_node': {
+        if (Path.equals(against.path, op.path)) {
+          /**
+           * 同时修改了同一个属性
+           *   left: 自己的修改覆盖别人的修改，properties 变为别人修改之后的值
+           *   right: 保留别人的修改，丢掉自己对这个属性的修改
+           */
+          if (against.type === 'set_node') {
+            const newProperties = { ...op.newProperties };
+            const properties = { ...op.properties };
+            for (const key in against.newProperties) {
+              if (!(key in newProperties)) {
+                continue;
+              }
+              if (side === 'left') {
+                properties[key] = against.newProperties[key];
+              } else {
+                delete newProperties[key];
+                delete properties[key];
+              }
+            }
+            return Object.keys(newProperties).length ? [{ ...op, newProperties, properties }] : [];
+          }
+
+          // 拆分出来的两个节点都需要设置属性
+          if (against.type === 'split_node') {
+            return [op, { ...op, path: Path.next(op.path) }];
+          }
+
+          // 节点已经合并到前一个节点，属性也跟着没了
+          if (against.type === 'merge_node') {
+            return [];
+          }
+        }
+
+        const path = Path.transform(op.path, against);
+        return path ? [{ ...op, path }] : [];
+      }
+
+      case 'move_node': {
+        const { path, newPath } = op;
+
+        if (Path.equals(path, newPath)) {
+          const p = Path.transform(path, against);
+          return p ? [{ ...op, path: p, newPath: p }] : [];
+        }
+
+        // 被移动的节点被别人合并了，或者移动到了合并的两个节点中间，合并的时候 merge_node 会被丢弃，所以这里先拆开再移动
+        if (
+          against.type === 'merge_node' &&
+          (
+            Path.equals(against.path, path) ||
+            Path.equals(Path.previous(against.path), path) ||
+            isMovedBefore(against.path, op)
+          )
+        ) {
+          return [unmerge(against), op];
+        }
+
+        if (against.type === 'move_node' && !Path.equals(against.path, against.newPath)) {
+          /**
+           * 同一个节点被同时移动，left 的移动生效，right 的移动丢弃。
+           * 除了这个节点以外文档是一样的，所以 left 从 against 移动到的位置移动到自己的目标位置
+           */
+          if (Path.equals(against.path, path)) {
+            const from = Path.transform(path, against)!;
+            const to = Path.transform(path, op)!;
+            return side === 'left' && !Path.equals(from, to) ? [moveTo(from, to)] : [];
+          }
+
+          // 两个节点互相移动到对方里面，left 先撤销 against 再移动，right 的移动丢弃
+          if (
+            Path.isCommon(against.path, Path.parent(newPath)) &&
+            Path.isCommon(path, Path.parent(against.newPath))
+          ) {
+            return side === 'left' ? [Operation.inverse(against), op] : [];
+          }
+        }
+
+        /**
+         * move_node 相当于先删除 path 节点，再插入到删除之后的文档的 to 位置。
+         * to 是删除之后的文档中的位置，所以 against 也要先基于删除之后的文档 transform，再去 transform to
+         */
+        const remove: Operation = { type: 'remove_node', path, node: { text: '' } };
+        let to: Path | null = Path.transform(path, op);
+        if (
+          against.type === 'move_node' &&
+          Path.isAncestor(path, against.path) &&
+          !Path.isAncestor(path, against.newPath)
+        ) {
+          // 被移动节点内部的子节点被移动到了外面，相当于在删除之后的文档中插入了这个子节点
+          const moved = Path.transform(against.path, against)!;
+          const removeMoved: Operation = { ...remove, path: Path.transform(path, against)! };
+          to = transformGap(to!, { type: 'insert_node', path: Path.transform(moved, removeMoved)!, node: { text: '' } }, side);
+        } else if (
+          against.type === 'move_node' &&
+          !Path.isAncestor(path, against.path) &&
+          Path.isCommon(path, Path.parent(against.newPath))
+        ) {
+          // 别的节点被移动到了这个节点里面，在删除之后的文档中相当于删除了那个节点
+          to = transformGap(to!, { ...remove, path: Path.transform(against.path, remove)! }, side);
+        } else if (!rebase(against, path)) {
+          // 被移动节点内部的修改不会影响 to
+          for (const o of Operation.transform(against, remove, side)) {
+            to = to && transformGap(to, o, side);
+          }
+        }
+        if (!to) {
+          return [];
+        }
+
+        // 被移动的节点被拆分了，拆分出来的两个节点一起移动，后一半此时还在 path 的位置
+        if (against.type === 'split_node' && Path.equals(against.path, path)) {
+          const rest: Operation = { type: 'insert_node', path, node: { text: '' } };
+          const first = moveTo(path, transformGap(to, rest, 'left')!);
+          const left = Path.transform(path, first)!;
+          const right = Path.transform(Path.next(path), first)!;
+          const removeRight: Operation = { type: 'remove_node', path: right, node: { text: '' } };
+          const second = moveTo(right, Path.next(Path.transform(left, removeRight)!));
+          return [first, second];
+        }
+
+        const p = Path.transform(path, against);
+        return p ? [moveTo(p, to)] : [];
+      }
+
+      case 'set_selection': {
+        let isRemoved = false;
+        const transformRange = (range: Partial<Range> | null) => {
+          if (!range) {
+            return range;
+          }
+
+          const result = { ...range };
+          for (const key of ['anchor', 'focus'] as const) {
+            const point = range[key];
+            if (point) {
+              const p = Point.transform(point, against, { affinity });
+              if (p) {
+                result[key] = p;
+              } else {
+                isRemoved = true;
+              }
+            }
+          }
+          return result;
+        }
+
+        const properties = transformRange(op.properties);
+        const newProperties = transformRange(op.newProperties);
+        return isRemoved ? [] : [{ ...op, properties, newProperties } as Operation];
+      }
+    }
+  },
+
+  /**
+   * 跟 transform 一样，transform 的对象是一组 op
+   */
+  transformAll(ops: Operation[], against: Operation[], side: OperationSide): Operation[] {
+    const [result] = transformX(ops, against, side);
+    return result;
+  },
 }
\ No newline at end of file
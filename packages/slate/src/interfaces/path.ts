@@ -1,4 +1,3 @@
-import produce from "immer";
 import { PathRefOptions } from "./editor";
 import { Operation } from "./operation";
 
@@ -203,10 +202,14 @@ export const Path: PathInterface = {
     options?: PathRefOptions,
   ): Path | null {
     const { affinity = 'forward' } = options || {};
-    return produce(path, p => {
-      if (!p) {
-        return null;
-      }
+    if (!path) {
+      return null;
+    }
+
+    // 一批 op 的脏路径、ref 每个 op 都要 transform，直接拷贝数组比 immer 的 produce 快很多。
+    // 跟 produce 一样，没有返回值的时候返回修改之后的 p
+    const p = path.slice();
+    const result = ((): Path | null | void => {
       switch (op.type) {
         case 'insert_node': {
           if (
@@ -432,6 +435,8 @@ export const Path: PathInterface = {
           break;
         }
       }
-    });
+    })();
+
+    return result === undefined ? p : result;
   }
-}
\ No newline at end of file
+}
@@ -53,9 +53,10 @@ export const Range: RangeInterface = {
   },
 
   /**
-   * 获取一个范围与另一个范围的交集。
+   * 获取一个范围与另一个范围的交集。range 上的其他属性（比如 decoration 的 mark）会保留
    */
   intersection(range: Range, another: Range): Range | null {
+    const { anchor, focus, ...rest } = range;
     const [s1, e1] = Range.edges(range);
     const [s2, e2] = Range.edges(another);
     const start = Point.isBefore(s1, s2) ? s2 : s1;
@@ -65,7 +66,7 @@ export const Range: RangeInterface = {
       return null;
     }
 
-    return { anchor: start, focus: end };
+    return { anchor: start, focus: end, ...rest };
   },
   
   /**
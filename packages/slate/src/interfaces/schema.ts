@@ -0,0 +1,141 @@
+import { Editor } from "./editor";
+import { Element } from "./element";
+import { Node, NodeEntry } from "./node";
+import { Path } from "./path";
+import { Text } from "./text";
+
+/**
+ * 一种 element（按照 element.type 区分）的结构规则，editor 根节点的规则写在 'editor' 下面，
+ * 根节点只检查 children / minChildren / maxChildren / marks
+ *   - children: 允许的子节点 type，text 节点用 'text' 表示
+ *   - parents: 允许的父节点 type，editor 根节点用 'editor' 表示
+ *   - properties: 必须有的属性和它的默认值，修复的时候使用默认值
+ *   - minChildren / maxChildren: 子节点个数的范围
+ *   - marks: 子 text 节点上允许的 mark
+ *   - normalize: 自定义修复的方式，不传使用默认的修复方式
+ */
+export interface ElementRule {
+  children?: string[];
+  parents?: string[];
+  properties?: Record<string, unknown>;
+  minChildren?: number;
+  maxChildren?: number;
+  marks?: string[];
+  normalize?: (editor: Editor, violation: SchemaViolation) => void;
+}
+
+export interface Schema {
+  elements: Record<string, ElementRule>;
+}
+
+export type SchemaViolationCode =
+  | 'child_type_invalid'
+  | 'parent_type_invalid'
+  | 'property_required'
+  | 'child_min_invalid'
+  | 'child_max_invalid'
+  | 'mark_invalid'
+
+/**
+ * 违反规则的地方，path/node 是需要修复的节点
+ *   - child_type_invalid / mark_invalid 的 path 是子节点的 path
+ *   - property_required / mark_invalid 的 key 是对应的属性
+ */
+export interface SchemaViolation {
+  code: SchemaViolationCode;
+  path: Path;
+  node: Node;
+  type: string;
+  key?: string;
+}
+
+export interface SchemaInterface {
+  rule: (schema: Schema, node: Node) => ElementRule | undefined;
+  typeOf: (node: Node) => string | undefined;
+  validateNode: (editor: Editor, schema: Schema, entry: NodeEntry) => SchemaViolation[];
+}
+
+// eslint-disable-next-line no-redeclare
+export const Schema: SchemaInterface = {
+  /**
+   * 节点在 schema 中的类型，editor 根节点是 'editor'，text 节点是 'text'
+   */
+  typeOf(node: Node): string | undefined {
+    if (Editor.isEditor(node)) {
+      return 'editor';
+    }
+    if (Text.isText(node)) {
+      return 'text';
+    }
+    return node.type;
+  },
+
+  rule(schema: Schema, node: Node): ElementRule | undefined {
+    if (Editor.isEditor(node)) {
+      return schema.elements.editor;
+    }
+    if (!Element.isElement(node) || typeof node.type !== 'string') {
+      return;
+    }
+    return schema.elements[node.type];
+  },
+
+  /**
+   * 检查一个 element 或者 editor 根节点是否符合 schema，返回所有违反规则的地方。没有对应规则的节点不检查
+   */
+  validateNode(editor: Editor, schema: Schema, entry: NodeEntry): SchemaViolation[] {
+    const [node, path] = entry;
+    const rule = Schema.rule(schema, node);
+    if (!rule || Text.isText(node)) {
+      return [];
+    }
+
+    const type = Schema.typeOf(node) as string;
+    const violations: SchemaViolation[] = [];
+    const { children, parents, properties, minChildren, maxChildren, marks } = rule;
+
+    // 根节点上不能 set_node，properties 只对 element 生效
+    if (properties && !Editor.isEditor(node)) {
+      for (const key of Object.keys(properties)) {
+        if (node[key] === undefined) {
+          violations.push({ code: 'property_required', path, node, type, key });
+        }
+      }
+    }
+
+    if (parents && path.length > 0) {
+      const parent = Node.parent(editor, path);
+      const parentType = Schema.typeOf(parent);
+      if (!parentType || !parents.includes(parentType)) {
+        violations.push({ code: 'parent_type_invalid', path, node, type });
+      }
+    }
+
+    node.children.forEach((child, i) => {
+      const childPath = path.concat(i);
+      const childType = Schema.typeOf(child);
+
+      if (children && (!childType || !children.includes(childType))) {
+        violations.push({ code: 'child_type_invalid', path: childPath, node: child, type });
+      }
+
+      if (marks && Text.isText(child)) {
+        for (const key of Object.keys(child)) {
+          if (key !== 'text' && !marks.includes(key)) {
+            violations.push({ code: 'mark_invalid', path: childPath, node: child, type, key });
+          }
+        }
+      }
+    });
+
+    if (minChildren != null && node.children.length < minChildren) {
+      violations.push({ code: 'child_min_invalid', path, node, type });
+    }
+
+    if (maxChildren != null && node.children.length > maxChildren) {
+      violations.push({ code: 'child_max_invalid', path, node, type });
+    }
+
+    return violations;
+  },
+}
@@ -8,4 +8,11 @@ export type SelectionMode = 'all' | 'highest' | 'lowest'
 
 export type SelectionEdge = 'anchor' | 'focus' | 'start' | 'end'
 
-export type RangeMode = 'highest' | 'lowest'
\ No newline at end of file
+export type RangeMode = 'highest' | 'lowest'
+/**
+ * core 里面没有排版信息，line 跟 block 一样按照 block 的开头和结尾处理，
+ * 可视的行（软换行）由 slate-react 根据浏览器给出的范围处理
+ */
+export type TextUnit = 'character' | 'word' | 'line' | 'block'
+
+export type TextUnitAdjustment = TextUnit | 'offset'
@@ -7,12 +7,13 @@ import { Text } from "../interfaces/text";
 import { Element } from "../interfaces/element";
 import { Point } from "../interfaces/point";
 import { Path } from "../interfaces/path";
+import { draftChildren, finishChildren, getDraftNode, getDraftParent } from "../utils/draft";
 
 export interface GeneralTransforms {
   transform: (editor: Editor, op: Operation) => void
 }
 
-const applyToDraft = (editor: Editor, selection: Selection, op: Operation): Selection => {
+export const applyToDraft = (editor: Editor, selection: Selection, op: Operation): Selection => {
   switch (op.type) {
     case 'set_selection': {
       const { newProperties } = op;
@@ -47,7 +48,7 @@ const applyToDraft = (editor: Editor, selection: Selection, op: Operation): Sele
 
     case 'insert_text': {
       const { path, offset, text } = op;
-      const node = Node.get(editor, path) as Text;
+      const node = getDraftNode(editor, path) as Text;
       const before = node.text.slice(0, offset);
       const after = node.text.slice(offset);
       node.text = before + text + after;
@@ -62,7 +63,7 @@ const applyToDraft = (editor: Editor, selection: Selection, op: Operation): Sele
 
     case 'remove_text': {
       const { path, offset, text } = op;
-      const node = Node.get(editor, path);
+      const node = getDraftNode(editor, path);
       const before = node.text.slice(0, offset);
       const after = node.text.slice(offset + text.length);
       node.text = before + after;
@@ -78,8 +79,8 @@ const applyToDraft = (editor: Editor, selection: Selection, op: Operation): Sele
 
     case 'split_node': {
       const { path, position } = op;
-      const node = Node.get(editor, path);
-      const parent = Node.parent(editor, path);
+      const node = getDraftNode(editor, path);
+      const parent = getDraftParent(editor, path);
       const index = path[path.length - 1];
       let newNode: Descendant;
 
@@ -115,12 +116,12 @@ const applyToDraft = (editor: Editor, selection: Selection, op: Operation): Sele
 
     case 'merge_node': {
       const { path } = op;
-      const parent = Node.parent(editor, path);
+      const parent = getDraftParent(editor, path);
       const index = path[path.length - 1];
 
-      const currentNode = Node.get(editor, path);
+      const currentNode = getDraftNode(editor, path);
       const prevPath = Path.previous(path);
-      const prevNode = Node.get(editor, prevPath);
+      const prevNode = getDraftNode(editor, prevPath);
 
       if (Text.isText(prevNode) && Text.isText(currentNode)) {
         // 两个 text 合并，text 合并到前一个，并且删掉当前 textNode
@@ -143,7 +144,7 @@ const applyToDraft = (editor: Editor, selection: Selection, op: Operation): Sele
 
     case 'insert_node': {
       const { path, node } = op;
-      const parent = Node.parent(editor, path);
+      const parent = getDraftParent(editor, path);
       const index = path[path.length - 1];
       parent.children.splice(index, 0, node);
               
@@ -158,7 +159,7 @@ const applyToDraft = (editor: Editor, selection: Selection, op: Operation): Sele
 
     case 'set_node': {
       const { path, newProperties, properties } = op;
-      const node = Node.get(editor, path);
+      const node = getDraftNode(editor, path);
 
       // 设置新的属性
       for (const key in newProperties) {
@@ -172,7 +173,7 @@ const applyToDraft = (editor: Editor, selection: Selection, op: Operation): Sele
 
       // 遍历旧属性，新属性中不存在就删除
       for (const key in properties) {
-        if (!newProperties[key]) {
+        if (!newProperties.hasOwnProperty(key)) {
           delete node[key];
         }
       }
@@ -180,7 +181,7 @@ const applyToDraft = (editor: Editor, selection: Selection, op: Operation): Sele
     }
     case 'remove_node': {
       const { path } = op;
-      const parent = Node.parent(editor, path);
+      const parent = getDraftParent(editor, path);
       const index = path[path.length - 1];
       parent.children.splice(index, 1);
       // 这里把 node 删除之后还需要重新设置 selection
@@ -202,8 +203,8 @@ const applyToDraft = (editor: Editor, selection: Selection, op: Operation): Sele
       /**
        * 1. 删除 path 节点
        */
-      const node = Node.get(editor, path);
-      const parent = Node.parent(editor, path);
+      const node = getDraftNode(editor, path);
+      const parent = getDraftParent(editor, path);
       const index = path[path.length - 1];
       parent.children.splice(index, 1);
       /**
@@ -211,7 +212,7 @@ const applyToDraft = (editor: Editor, selection: Selection, op: Operation): Sele
        *   在新的位置上插入新节点
        */
       const truePath = Path.transform(path, op)!;
-      const newParent = Node.parent(editor, truePath);
+      const newParent = getDraftParent(editor, truePath);
       const newIndex = truePath[truePath.length - 1];
       newParent.children.splice(newIndex, 0, node);
 
@@ -233,13 +234,18 @@ export const GeneralTransforms: GeneralTransforms = {
    */
 
   transform(editor: Editor, op: Operation): void {
-    editor.children = createDraft(editor.children);
+    draftChildren(editor);
     let selection = editor.selection && createDraft(editor.selection);
     try {
       selection = applyToDraft(editor, selection, op);
     } finally {
-      editor.children = finishDraft(editor.children);
+      // selection 很小，每个 op 单独 finishDraft，避免 ref 等地方拿到 draft
       editor.selection = isDraft(selection) ? finishDraft(selection) : selection;
+
+      // 不在 withoutNormalizing 里面的 op 没有批次，直接完成
+      if (Editor.isNormalizing(editor)) {
+        finishChildren(editor);
+      }
     }
   },
 }
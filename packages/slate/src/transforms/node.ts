@@ -3,6 +3,7 @@ import { Editor, NodeMatch } from "../interfaces/editor";
 import { Element } from "../interfaces/element";
 import { Location } from "../interfaces/location";
 import { Node } from '../interfaces/node';
+import { getDraftNode, toPlain } from '../utils/draft';
 import { Path } from "../interfaces/path";
 import { Point } from "../interfaces/point";
 import { Range } from "../interfaces/range";
@@ -285,8 +286,12 @@ export const NodeTransforms: NodeTransforms = {
         }
       }
 
-      // 2. 对选区的节点增加 mark
-      for (const [node, nodePath] of Editor.nodes(editor, { at, match, mode, })) {
+      /**
+       * 2. 对选区的节点增加 mark。
+       * set_node 不会改变 path，先取出全部节点再 apply，中间不再读取节点，这些 op 共用一个 draft
+       */
+      const entries = Array.from(Editor.nodes(editor, { at, match, mode, }));
+      for (const [node, nodePath] of entries) {
         let hasChanges = false;
         const oldProperties = {};
         const newProperties = {};
@@ -305,14 +310,13 @@ export const NodeTransforms: NodeTransforms = {
             oldProperties[k] = node[k];
             newProperties[k] = props[k];
             hasChanges = true;
-            break;
           }
         }
 
         if (hasChanges) {
           editor.apply({
             type: 'set_node',
-            newProperties: props,
+            newProperties,
             properties: oldProperties,
             path: nodePath,
           })
@@ -445,10 +449,11 @@ export const NodeTransforms: NodeTransforms = {
         if (!path) {
           continue;
         }
+        // 直接从 draft 中取出要删除的节点，不读取节点就不会完成 draft，这些 op 共用一个 draft
         editor.apply({
           type: 'remove_node',
           path,
-          node: Node.get(editor, path),
+          node: toPlain(getDraftNode(editor, path)),
         });
       }
     });
@@ -3,12 +3,13 @@ import { Editor } from "../interfaces/editor";
 import { Location } from '../interfaces/location';
 import { Point } from "../interfaces/point";
 import { Range } from '../interfaces/range';
-import { SelectionEdge } from "../interfaces/types";
+import { SelectionEdge, TextUnitAdjustment } from "../interfaces/types";
 
 export interface SelectionMoveOptions {
   reverse?: boolean;
   edge?: SelectionEdge;
   distance?: number;
+  unit?: TextUnitAdjustment;
 }
 
 export interface SelectionCollapseOptions {
@@ -58,10 +59,11 @@ export const SelectionTransforms: SelectionTransforms = {
    * focus: 就直接移动 focus
    * 
    * reverse 是否往前，默认是往后。移动 distance 位置
+   * unit 移动的单位，默认按字符移动，不会停在 emoji 等字符的中间；word 可以按单词跳转
    */
   move(editor: Editor, options: SelectionMoveOptions = {}) {
     const { selection } = editor;
-    const { distance = 1, reverse = false } = options
+    const { distance = 1, reverse = false, unit = 'character' } = options
     let { edge = null } = options
 
     if (!selection) {
@@ -81,8 +83,8 @@ export const SelectionTransforms: SelectionTransforms = {
     const { anchor, focus } = selection;
     if (edge === null || edge === 'anchor') {
       const point = reverse 
-        ? Editor.before(editor, anchor, { distance })
-        : Editor.after(editor, anchor, { distance });
+        ? Editor.before(editor, anchor, { distance, unit })
+        : Editor.after(editor, anchor, { distance, unit });
 
       if (point) {
         props.anchor = point;
@@ -91,8 +93,8 @@ export const SelectionTransforms: SelectionTransforms = {
 
     if (edge === null || edge === 'focus') {
       const point = reverse
-        ? Editor.before(editor, focus, { distance })
-        : Editor.after(editor, focus, { distance });
+        ? Editor.before(editor, focus, { distance, unit })
+        : Editor.after(editor, focus, { distance, unit });
 
       if (point) {
         props.focus = point;
@@ -7,11 +7,13 @@ import { Path } from "../interfaces/path";
 import { Point } from "../interfaces/point";
 import { Range } from "../interfaces/range";
 import { Text } from "../interfaces/text";
+import { TextUnit } from "../interfaces/types";
 
 export interface TextDeleteOptions {
   reverse?: boolean;
   at?: Location;
   distance?: number;
+  unit?: TextUnit;
 }
 
 interface InsertFragmentOptions {
@@ -66,7 +68,7 @@ export const TextTransforms: TextTransforms = {
 
   delete(editor: Editor, options: TextDeleteOptions = {}) {
     Editor.withoutNormalizing(editor, () => {
-      let { at = editor.selection, reverse = false, distance = 1 } = options;
+      let { at = editor.selection, reverse = false, distance = 1, unit = 'character' } = options;
       if (!at) {
         return;
       }
@@ -83,9 +85,13 @@ export const TextTransforms: TextTransforms = {
           const [, voidPath] = furthestVoid
           at = voidPath
         } else {
-          const opts = { distance };
+          const opts = { unit, distance };
           const target = reverse ? Editor.after(editor, at, opts) : Editor.before(editor, at, opts);
-          at = { anchor: at, focus: target! };
+          // 已经到了文档的边缘，没有可以删除的内容
+          if (!target) {
+            return;
+          }
+          at = { anchor: at, focus: target };
         }
       }
       
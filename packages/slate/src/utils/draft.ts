@@ -0,0 +1,88 @@
+import { createDraft, current, finishDraft, isDraft } from 'immer';
+import { isPlainObject } from 'is-plain-object';
+import { Editor } from '../interfaces/editor';
+import { Ancestor, Node } from '../interfaces/node';
+import { Path } from '../interfaces/path';
+import { Text } from '../interfaces/text';
+
+/**
+ * 同一批 op（一个 withoutNormalizing 里面）共用一个 editor.children 的 draft，
+ * 第一个 op 的时候创建，下一次通过 Node/Editor 的 api 读取节点、withoutNormalizing 结束或者 normalize 之前统一 finishDraft。
+ * draft 只在 apply op 的时候使用，不会返回给外部，外部拿到的节点在批次结束之后仍然可以访问
+ */
+export const draftChildren = (editor: Editor) => {
+  if (!isDraft(editor.children)) {
+    editor.children = createDraft(editor.children);
+  }
+}
+
+export const finishChildren = (editor: Editor) => {
+  if (isDraft(editor.children)) {
+    editor.children = finishDraft(editor.children);
+  }
+}
+
+/**
+ * 读取 root 下面的节点之前调用，root 是 editor 并且有没完成的 draft 的时候先 finishDraft
+ */
+export const finishRoot = (root: Node) => {
+  if (isDraft((root as Ancestor).children) && Editor.isEditor(root)) {
+    finishChildren(root as Editor);
+  }
+}
+
+/**
+ * apply op 的时候从 draft 中取出要修改的节点，返回的是 draft，只能在 apply 里面使用
+ */
+export const getDraftNode = (root: Ancestor, path: Path): Node => {
+  let node: Node = root;
+  for (const index of path) {
+    if (Text.isText(node) || !node.children[index]) {
+      throw new Error(`Cannot find a descendant at path [${path}] in node`);
+    }
+    node = node.children[index];
+  }
+  return node;
+}
+
+export const getDraftParent = (root: Ancestor, path: Path): Ancestor => {
+  const parent = getDraftNode(root, Path.parent(path));
+  if (Text.isText(parent)) {
+    throw new Error(`Cannot get the parent of path [${path}] because it does not exist in the root.`);
+  }
+  return parent;
+}
+
+/**
+ * draft 在 finishDraft 之后就不能再访问了，op 里面从 editor.children 读出来的节点可能是 draft，
+ * 需要转换成普通对象。没有 draft 的时候返回原来的值
+ */
+export const toPlain = <T>(value: T): T => {
+  if (isDraft(value)) {
+    return current(value);
+  }
+
+  if (Array.isArray(value)) {
+    let changed = false;
+    const result = value.map(item => {
+      const plain = toPlain(item);
+      changed = changed || plain !== item;
+      return plain;
+    });
+    return (changed ? result : value) as unknown as T;
+  }
+
+  if (isPlainObject(value)) {
+    let changed = false;
+    const result: Record<string, unknown> = {};
+    for (const key of Object.keys(value as object)) {
+      const item = (value as Record<string, unknown>)[key];
+      const plain = toPlain(item);
+      changed = changed || plain !== item;
+      result[key] = plain;
+    }
+    return (changed ? result : value) as T;
+  }
+
+  return value;
+}
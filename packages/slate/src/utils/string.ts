@@ -0,0 +1,139 @@
+/**
+ * 单词字符：字母、数字、下划线（包括中文等其他语言的字母）
+ */
+const WORD_CHAR = /[\p{L}\p{N}_]/u;
+
+/**
+ * 跟前一个字符组成同一个字形（grapheme cluster）的字符：组合符号、零宽连接符、变体选择符、emoji 肤色
+ */
+const EXTEND_CHAR = /[\p{M}\u200D\uFE0E\uFE0F\u{1F3FB}-\u{1F3FF}\u{E0020}-\u{E007F}]/u;
+
+/**
+ * 国旗 emoji 由两个 regional indicator 组成
+ */
+const REGIONAL_INDICATOR = /[\u{1F1E6}-\u{1F1FF}]/u;
+
+const createSegmenter = (granularity: 'grapheme' | 'word'): Intl.Segmenter | null => {
+  return typeof Intl !== 'undefined' && typeof Intl.Segmenter === 'function'
+    ? new Intl.Segmenter(undefined, { granularity })
+    : null;
+}
+
+const graphemeSegmenter = createSegmenter('grapheme');
+const wordSegmenter = createSegmenter('word');
+
+/**
+ * 不支持 Intl.Segmenter 的环境下，按 code point 切分字形，处理常见的组合字符和 emoji 序列
+ */
+const splitGraphemes = (text: string): string[] => {
+  const graphemes: string[] = [];
+  let joined = false;
+
+  for (const char of text) {
+    const last = graphemes.length - 1;
+    const isPair = last >= 0 &&
+      REGIONAL_INDICATOR.test(char) &&
+      REGIONAL_INDICATOR.test(graphemes[last]) &&
+      Array.from(graphemes[last]).length === 1;
+
+    if (last >= 0 && (joined || isPair || EXTEND_CHAR.test(char))) {
+      graphemes[last] += char;
+    } else {
+      graphemes.push(char);
+    }
+    joined = char === '\u200D';
+  }
+
+  return graphemes;
+}
+
+/**
+ * 按字形依次返回每一步的长度
+ *   '👨\u200D👩\u200D👧a' => 8, 1
+ */
+function* characterDistances(text: string, backward: boolean): Generator<number, void, undefined> {
+  const graphemes = graphemeSegmenter
+    ? Array.from(graphemeSegmenter.segment(text), s => s.segment)
+    : splitGraphemes(text);
+  if (backward) {
+    graphemes.reverse();
+  }
+
+  for (const grapheme of graphemes) {
+    yield grapheme.length;
+  }
+}
+
+/**
+ * 按单词依次返回每一步的长度，包括单词前面的空格和标点，最后剩下的空格和标点单独算一步
+ *   'hello world' backward => 5, 6
+ *   'hello, '     backward => 7
+ */
+function* wordDistances(text: string, backward: boolean): Generator<number, void, undefined> {
+  let distance = 0;
+
+  // 支持 Intl.Segmenter 的时候按照分词的结果，中文等没有空格的语言也可以正确的切分单词
+  if (wordSegmenter) {
+    const segments = Array.from(wordSegmenter.segment(text));
+    if (backward) {
+      segments.reverse();
+    }
+
+    for (const { segment, isWordLike } of segments) {
+      distance += segment.length;
+      if (isWordLike) {
+        yield distance;
+        distance = 0;
+      }
+    }
+  } else {
+    const chars = Array.from(text);
+    if (backward) {
+      chars.reverse();
+    }
+
+    let started = false;
+    for (const char of chars) {
+      const isWordChar = WORD_CHAR.test(char);
+      // 已经遇到过单词字符，再遇到非单词字符说明单词结束了
+      if (started && !isWordChar) {
+        yield distance;
+        distance = 0;
+        started = false;
+      }
+      if (isWordChar) {
+        started = true;
+      }
+      distance += char.length;
+    }
+  }
+
+  if (distance > 0) {
+    yield distance;
+  }
+}
+
+/**
+ * 按 unit 依次返回 text 中每一步的长度（backward 为 true 时从结尾开始），长度是 UTF-16 的长度，跟 point 的 offset 一致。
+ * 整个 text 只切分一次，移动的时候不需要每一步都重新切分剩下的文本
+ */
+export function* getDistances(
+  text: string,
+  unit: 'character' | 'word' | 'line' | 'block',
+  backward = false,
+): Generator<number, void, undefined> {
+  if (!text) {
+    return;
+  }
+
+  switch (unit) {
+    case 'character':
+      yield* characterDistances(text, backward);
+      break;
+    case 'word':
+      yield* wordDistances(text, backward);
+      break;
+    default:
+      yield text.length;
+  }
+}
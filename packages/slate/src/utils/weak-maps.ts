@@ -1,8 +1,9 @@
-import { Editor } from "../interfaces/editor";
+import { Editor, EditorChangeListener, EditorTransaction } from "../interfaces/editor";
 import { Path } from "../interfaces/path";
 import { PathRef } from "../interfaces/path-ref";
 import { PointRef } from "../interfaces/point-ref";
 import { RangeRef } from "../interfaces/range-ref";
+import { Schema } from "../interfaces/schema";
 
 export const FLUSHING: WeakMap<Editor, boolean> = new WeakMap();
 export const POINT_REFS: WeakMap<Editor, Set<PointRef>> = new WeakMap();
@@ -11,3 +12,6 @@ export const PATH_REFS: WeakMap<Editor, Set<PathRef>> = new WeakMap();
 export const DIRTY_PATHS: WeakMap<Editor, Path[]> = new WeakMap();
 export const DIRTY_PATHS_KEYS: WeakMap<Editor, Set<string>> = new WeakMap();
 export const NORMALIZING: WeakMap<Editor, boolean> = new WeakMap();
+export const EDITOR_TO_SCHEMA: WeakMap<Editor, Schema> = new WeakMap();
+export const TRANSACTION: WeakMap<Editor, EditorTransaction> = new WeakMap();
+export const EDITOR_TO_LISTENERS: WeakMap<Editor, Set<EditorChangeListener>> = new WeakMap();
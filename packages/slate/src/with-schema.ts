@@ -0,0 +1,155 @@
+import { Editor } from "./interfaces/editor";
+import { Element } from "./interfaces/element";
+import { Descendant, Node } from "./interfaces/node";
+import { ElementRule, Schema, SchemaViolation } from "./interfaces/schema";
+import { Text } from "./interfaces/text";
+import { Transforms } from "./transforms";
+import { EDITOR_TO_SCHEMA } from "./utils/weak-maps";
+
+/**
+ * 默认值不是 null 的 properties，生成节点或者修改节点类型的时候使用
+ */
+const defaultProperties = (rule: ElementRule) => {
+  const properties: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(rule.properties || {})) {
+    if (value != null) {
+      properties[key] = value;
+    }
+  }
+  return properties;
+}
+
+/**
+ * 规则允许的第一个 element 类型
+ */
+const allowedElementType = (rule: ElementRule) => {
+  return rule.children?.find(type => type !== 'text' && type !== 'editor');
+}
+
+/**
+ * 按照规则生成一个默认的子节点：允许 text（或者没有限制）的时候是空 text，否则是第一个允许的 element，
+ * 它的子节点按照它的规则递归生成。types 是已经生成过的类型，规则循环引用的时候用空 text 结束
+ */
+const createDefaultChild = (schema: Schema, rule: ElementRule, types: string[] = []): Descendant => {
+  const type = allowedElementType(rule);
+  if (!rule.children || rule.children.includes('text') || !type || types.includes(type)) {
+    return { text: '' };
+  }
+
+  const childRule = schema.elements[type] || {};
+  const children = Array.from(
+    { length: Math.max(childRule.minChildren ?? 1, 1) },
+    () => createDefaultChild(schema, childRule, [...types, type]),
+  );
+  return { ...defaultProperties(childRule), type, children } as Descendant;
+}
+
+/**
+ * 默认的修复方式，返回 false 表示没办法修复，交给 editor 原来的 normalizeNode
+ *   - property_required: 设置为规则里面的默认值，没有默认值就删除节点
+ *   - parent_type_invalid: 用允许的父节点包一层，只允许在根节点的就往上提一层，都不行就删除节点
+ *   - child_type_invalid: 不删除子节点（删除最后一个子节点之后 core 会插入空 text，又会违反规则）。
+ *     text 或者允许的类型可以放在里面的 element 用第一个允许的类型包一层，其他 element 改成这个类型，
+ *     只允许 text 的时候把 element 展开成它的 text
+ *   - child_min_invalid: 在末尾插入按照规则生成的默认子节点，editor 根节点也一样
+ *   - child_max_invalid: 删除多出来的子节点
+ *   - mark_invalid: 删除 mark
+ */
+const fixViolation = (editor: Editor, schema: Schema, rule: ElementRule, violation: SchemaViolation): boolean => {
+  const { code, path, node, key } = violation;
+
+  switch (code) {
+    case 'property_required': {
+      const value = rule.properties![key!];
+      if (value == null) {
+        Transforms.removeNodes(editor, { at: path });
+      } else {
+        Transforms.setNodes(editor, { [key!]: value }, { at: path });
+      }
+      break;
+    }
+    case 'parent_type_invalid': {
+      const parents = rule.parents!;
+      const wrapper = parents.find(type => type !== 'editor');
+      if (wrapper) {
+        Transforms.wrapNodes(editor, { type: wrapper, children: [] }, { at: path });
+      } else if (parents.includes('editor')) {
+        Transforms.liftNodes(editor, { at: path });
+      } else {
+        Transforms.removeNodes(editor, { at: path });
+      }
+      break;
+    }
+    case 'child_type_invalid': {
+      const type = allowedElementType(rule);
+      if (type) {
+        const typeRule = schema.elements[type] || {};
+        const childType = Schema.typeOf(node);
+        const properties = defaultProperties(typeRule);
+        if (Text.isText(node) || !typeRule.children || typeRule.children.includes(childType!)) {
+          Transforms.wrapNodes(editor, { ...properties, type, children: [] } as Element, { at: path });
+        } else {
+          Transforms.setNodes(editor, { ...properties, type }, { at: path });
+        }
+      } else if (Element.isElement(node) && rule.children!.includes('text')) {
+        const texts = Array.from(Node.texts(node), ([text]) => text);
+        Editor.withoutNormalizing(editor, () => {
+          Transforms.removeNodes(editor, { at: path });
+          Transforms.insertNodes(editor, texts, { at: path });
+        });
+      } else {
+        return false;
+      }
+      break;
+    }
+    case 'child_min_invalid': {
+      const { children } = node as { children: unknown[] };
+      const nodes = Array.from(
+        { length: rule.minChildren! - children.length },
+        () => createDefaultChild(schema, rule),
+      );
+      Transforms.insertNodes(editor, nodes, { at: path.concat(children.length) });
+      break;
+    }
+    case 'child_max_invalid': {
+      const { children } = node as { children: unknown[] };
+      // 从后往前删除，前面的 path 不会变化
+      for (let i = children.length - 1; i >= rule.maxChildren!; i--) {
+        Transforms.removeNodes(editor, { at: path.concat(i) });
+      }
+      break;
+    }
+    case 'mark_invalid': {
+      Transforms.setNodes(editor, { [key!]: null }, { at: path });
+      break;
+    }
+  }
+  return true;
+}
+
+/**
+ * 按照 schema 校验文档结构，在 normalize 的时候修复违反规则的节点。
+ * 每次只修复一个地方，修复产生的 op 会让节点重新变成脏路径，再次 normalize 的时候继续修复剩下的
+ */
+export const withSchema = <T extends Editor>(editor: T, schema: Schema): T => {
+  const { normalizeNode } = editor;
+  EDITOR_TO_SCHEMA.set(editor, schema);
+
+  editor.normalizeNode = entry => {
+    const [violation] = Schema.validateNode(editor, schema, entry);
+    if (violation) {
+      const rule = schema.elements[violation.type];
+      if (rule.normalize) {
+        rule.normalize(editor, violation);
+        return;
+      }
+      if (fixViolation(editor, schema, rule, violation)) {
+        return;
+      }
+    }
+
+    normalizeNode(entry);
+  };
+
+  return editor;
+}
@@ -0,0 +1,62 @@
+import { Descendant } from 'slate';
+import { HistoryEditor } from 'slate-history';
+
+/**
+ * 把文档和历史记录保存在 localStorage 中，刷新页面之后 undo/redo 仍然可用。
+ * 历史记录只能在同一份文档上恢复，所以文档和历史记录要一起保存。
+ * 服务端渲染的时候没有 localStorage，loadValue/restore 需要在 effect 中调用，否则 hydration 的内容不一致
+ */
+export const createLocalStorageHistory = (key: string, wait = 500) => {
+  const valueKey = `${key}:value`;
+  const historyKey = `${key}:history`;
+  const storage = typeof window === 'undefined' ? null : window.localStorage;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let pending: HistoryEditor | null = null;
+
+  const flush = () => {
+    clearTimeout(timer);
+    if (pending) {
+      storage?.setItem(valueKey, JSON.stringify(pending.children));
+      storage?.setItem(historyKey, HistoryEditor.serialize(pending));
+      pending = null;
+    }
+  }
+
+  return {
+    loadValue(): Descendant[] | null {
+      const value = storage?.getItem(valueKey);
+      if (!value) {
+        return null;
+      }
+      try {
+        return JSON.parse(value);
+      } catch {
+        return null;
+      }
+    },
+
+    /**
+     * 在 editor.children 设置为 loadValue 的值之后调用，历史记录过期的时候直接丢弃
+     */
+    restore(editor: HistoryEditor) {
+      const history = storage?.getItem(historyKey);
+      if (history && !HistoryEditor.restore(editor, history)) {
+        storage?.removeItem(historyKey);
+      }
+    },
+
+    /**
+     * 每次修改都序列化整个文档和历史记录开销很大，停止输入 wait 毫秒之后再保存
+     */
+    save(editor: HistoryEditor) {
+      pending = editor;
+      clearTimeout(timer);
+      timer = setTimeout(flush, wait);
+    },
+
+    /**
+     * 立即保存还没有保存的修改，页面关闭之前调用
+     */
+    flush,
+  };
+}
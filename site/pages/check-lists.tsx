@@ -5,6 +5,7 @@ import {
   withReact,
   ReactEditor,
   useSlateStatic,
+  useReadOnly,
 } from 'slate-react'
 import {
   Editor,
@@ -126,6 +127,7 @@ const Element = props => {
 
 const CheckListItemElement = ({ attributes, children, element }) => {
   const editor = useSlateStatic()
+  const readOnly = useReadOnly()
   const { checked } = element
   return (
     <div
@@ -149,6 +151,7 @@ const CheckListItemElement = ({ attributes, children, element }) => {
         <input
           type="checkbox"
           checked={checked}
+          disabled={readOnly}
           onChange={event => {
             const path = ReactEditor.findPath(editor, element)
             const newProperties: Partial<SlateElement> = {
@@ -159,7 +162,7 @@ const CheckListItemElement = ({ attributes, children, element }) => {
         />
       </span>
       <span
-        contentEditable={true}
+        contentEditable={!readOnly}
         suppressContentEditableWarning
         className={css`
           flex: 1;
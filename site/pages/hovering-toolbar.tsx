@@ -1,5 +1,5 @@
 import React, { useMemo, useRef, useEffect, useState } from 'react'
-import { Slate, Editable, withReact, useFocused, useSlateStatic } from 'slate-react'
+import { Slate, Editable, withReact, useFocused, useSlateStatic, useSlateSelector } from 'slate-react'
 import {
   Editor,
   Transforms,
@@ -78,11 +78,11 @@ const HoveringToolbar = () => {
   const ref = useRef<HTMLDivElement | null>(null)
   const editor = useSlateStatic()
   const inFocus = useFocused()
+  const selection = useSlateSelector(editor => editor.selection)
   const [style, setStyle] = useState<React.CSSProperties>({});
 
   useEffect(() => {
     const el = ref.current
-    const { selection } = editor
 
     if (!el) {
       return
@@ -106,7 +106,7 @@ const HoveringToolbar = () => {
       top: `${rect.top + window.pageYOffset - el.offsetHeight}px`,
       left: `${rect.left + window.pageXOffset -  el.offsetWidth / 2 + rect.width / 2}px`
     })
-  }, [editor.selection, inFocus])
+  }, [selection, inFocus])
 
   return (
     <div
@@ -138,10 +138,11 @@ const HoveringToolbar = () => {
 
 const FormatButton = ({ format, icon }) => {
   const editor = useSlateStatic()
+  const isActive = useSlateSelector(editor => isFormatActive(editor, format))
   return (
     <Button
       reversed
-      active={isFormatActive(editor, format)}
+      active={isActive}
       onClick={() => toggleFormat(editor, format)}
     >
       <Icon>{icon}</Icon>
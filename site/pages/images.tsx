@@ -8,6 +8,7 @@ import {
   withReact,
   ReactEditor,
   useSlateStatic,
+  useReadOnly,
 } from 'slate-react'
 import { withHistory } from 'slate-history'
 import { css } from '@emotion/css'
@@ -86,6 +87,8 @@ const Image = ({ attributes, children, element }) => {
   const path = ReactEditor.findPath(editor, element)
   const selected = useSelected()
   const focused = useFocused()
+  // 只读模式不能删除图片
+  const readOnly = useReadOnly()
 
   return (
     <div {...attributes}>
@@ -109,7 +112,7 @@ const Image = ({ attributes, children, element }) => {
           active
           onClick={() => Transforms.removeNodes(editor, { at: path })}
           className={css`
-            display: ${selected && focused ? 'inline' : 'none'};
+            display: ${selected && focused && !readOnly ? 'inline' : 'none'};
             position: absolute;
             top: 0.5em;
             left: 0.5em;
@@ -1,9 +1,10 @@
-import React, { useCallback, useMemo } from 'react'
-import { Editable, withReact, Slate, RenderLeafProps, useSlateStatic } from 'slate-react';
+import React, { useCallback, useEffect, useMemo, useState } from 'react'
+import { Editable, withReact, Slate, RenderLeafProps, useSlateStatic, useSlateSelector } from 'slate-react';
 import { createEditor, Editor, Descendant, Transforms, Element as SlateElement } from 'slate';
 import { withHistory } from 'slate-history';
 
 import { Button, Icon, Toolbar } from '../components'
+import { createLocalStorageHistory } from '../history-storage'
 
 const initialValue: Descendant[] = [
   {
@@ -99,13 +100,15 @@ const Element = ({ attributes, children, element }) => {
 
 const MarkButton = ({ format, icon}: { format: string, icon: string }) => {
   const editor = useSlateStatic();
+  // 只有 marks 变化的时候才 re-render
+  const isActive = useSlateSelector(editor => isMarkActive(editor, format));
   return (
     <Button
       onMouseDown={event => {
         event.preventDefault()
         toggleMark(editor, format)
       }}
-      active={isMarkActive(editor, format)}
+      active={isActive}
     >
       <Icon>{icon}</Icon>
     </Button>
@@ -128,17 +131,18 @@ const toggleMark = (editor, format) => {
 
 const BlockButton = ({ format, icon }) => {
   const editor = useSlateStatic()
+  const isActive = useSlateSelector(editor => isBlockActive(
+    editor,
+    format,
+    TEXT_ALIGN_TYPES.includes(format) ? 'align' : 'type'
+  ));
   return (
     <Button
       onMouseDown={event => {
         event.preventDefault()
         toggleBlock(editor, format)
       }}
-      active={isBlockActive(
-        editor,
-        format,
-        TEXT_ALIGN_TYPES.includes(format) ? 'align' : 'type'
-      )}
+      active={isActive}
     >
       <Icon>{icon}</Icon>
     </Button>
@@ -201,11 +205,34 @@ const toggleBlock = (editor, format) => {
 
 const HomePage = () => {
   const editor = useMemo(() => withHistory(withReact(createEditor())), []);
+  const storage = useMemo(() => createLocalStorageHistory('slate-home'), []);
+  // localStorage 只能在客户端读取，加载完成之前不渲染编辑器，服务端和客户端第一次渲染的内容一致
+  const [value, setValue] = useState<Descendant[] | null>(null);
   const renderLeaf = useCallback(props => <Leaf {...props} />, []);
   const renderElement = useCallback(props => <Element {...props} />, [])
 
+  useEffect(() => {
+    setValue(storage.loadValue() || initialValue);
+    window.addEventListener('pagehide', storage.flush);
+    return () => {
+      window.removeEventListener('pagehide', storage.flush);
+      storage.flush();
+    }
+  }, []);
+
+  // Slate 初始化的时候设置了 editor.children，之后才能恢复历史记录
+  useEffect(() => {
+    if (value) {
+      storage.restore(editor);
+    }
+  }, [value]);
+
+  if (!value) {
+    return null;
+  }
+
   return (
-    <Slate editor={editor} value={initialValue}>
+    <Slate editor={editor} value={value} onChange={() => storage.save(editor)}>
       <Toolbar>
         <MarkButton format="bold" icon="format_bold" />
         <MarkButton format="italic" icon="format_italic" />
@@ -225,6 +252,7 @@ const HomePage = () => {
       <Editable
         renderLeaf={renderLeaf}
         renderElement={renderElement}
+        placeholder="Enter some rich text…"
       />
     </Slate>
   )
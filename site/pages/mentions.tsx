@@ -134,10 +134,19 @@ const MentionExample = () => {
             {chars.map((char, i) => (
               <div
                 key={i}
+                onMouseDown={event => {
+                  // 点击候选项插入 mention，之后让焦点回到编辑器
+                  event.preventDefault()
+                  Transforms.select(editor, target)
+                  insertMention(editor, char)
+                  setTarget(null)
+                  ReactEditor.focus(editor)
+                }}
                 style={{
                   padding: '1px 3px',
                   borderRadius: '3px',
                   background: i === index ? '#B4D5FF' : 'transparent',
+                  cursor: 'pointer',
                 }}
               >
                 {char}
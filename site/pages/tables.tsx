@@ -25,10 +25,10 @@ const TablesExample = () => {
 }
 
 const withTables = editor => {
-  const { deleteBackward, deleteFragment } = editor;
+  const { deleteBackward, deleteForward, deleteFragment } = editor;
 
   // TODO：如何做到整体删除 table？？
-  editor.deleteBackward = () => {
+  editor.deleteBackward = unit => {
     const { selection } = editor;
     if (selection && Range.isCollapsed(selection)) {
       const [cell] = Editor.nodes(editor, {
@@ -44,7 +44,26 @@ const withTables = editor => {
         }
       }
     }
-    deleteBackward()
+    deleteBackward(unit)
+  };
+
+  editor.deleteForward = unit => {
+    const { selection } = editor;
+    if (selection && Range.isCollapsed(selection)) {
+      const [cell] = Editor.nodes(editor, {
+        match: n => SlateElement.isElement(n) && n.type === 'table-cell',
+      });
+
+      if (cell) {
+        const [, cellPath] = cell;
+        // 同上，在 tableCell 的末尾往后删除会把下一个 tableCell 合并进来
+        const end = Editor.end(editor, cellPath);
+        if (Point.equals(selection.anchor, end)) {
+          return
+        }
+      }
+    }
+    deleteForward(unit)
   };
 
   editor.deleteFragment = () => {